@@ -0,0 +1,32 @@
+import { readFile } from "node:fs/promises";
+import { NextResponse } from "next/server";
+import { isGalleryVariant } from "@/lib/proofing";
+import { getGallery } from "@/lib/server/gallery-store";
+import { getShoot, resolvePhotoAsset } from "@/lib/server/ingest";
+import { getProject } from "@/lib/server/project-store";
+
+type RouteContext = {
+  params: Promise<{ token: string; photoId: string; variant: string }>;
+};
+
+/** Serves a shared frame to the client; other frames and originals are never served. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { token, photoId, variant } = await params;
+  if (!isGalleryVariant(variant)) {
+    return NextResponse.json({ error: `Unknown variant "${variant}"` }, { status: 400 });
+  }
+
+  const gallery = await getGallery(token);
+  const project = gallery?.photoIds.includes(photoId)
+    ? await getProject(gallery.projectId)
+    : undefined;
+  const shoot = project?.shootId ? await getShoot(project.shootId) : undefined;
+  const assetPath = shoot ? await resolvePhotoAsset(shoot, photoId, variant) : undefined;
+  if (!assetPath) {
+    return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(await readFile(assetPath)), {
+    headers: { "Content-Type": "image/jpeg", "Cache-Control": "private, max-age=3600" },
+  });
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { emptyClientResponse, parseClientResponseUpdate } from "@/lib/proofing";
+import { recordClientResponse } from "@/lib/server/gallery-store";
+
+type RouteContext = {
+  params: Promise<{ token: string }>;
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { token } = await params;
+  const update = parseClientResponseUpdate(await request.json().catch(() => undefined));
+  if (!update) {
+    return NextResponse.json({ error: "Malformed response" }, { status: 400 });
+  }
+
+  const gallery = await recordClientResponse(token, update);
+  if (!gallery) {
+    return NextResponse.json({ error: "Gallery or photo not found" }, { status: 404 });
+  }
+  return NextResponse.json({ response: gallery.responses[update.photoId] ?? emptyClientResponse });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { loadSelectionHistory } from "@/lib/server/selection-history";
+import { learnWeights, MIN_TRAINING_SELECTIONS } from "@/lib/weight-learning";
+
+export async function GET() {
+  const { examples, projects } = await loadSelectionHistory();
+  const selections = examples.filter(({ selected }) => selected).length;
+  if (selections < MIN_TRAINING_SELECTIONS) {
+    return NextResponse.json(
+      {
+        error:
+          `Shortlist at least ${MIN_TRAINING_SELECTIONS} frames across your projects ` +
+          `to learn from (found ${selections})`,
+      },
+      { status: 422 },
+    );
+  }
+  return NextResponse.json({ learned: learnWeights(examples, projects) });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { deletePreset } from "@/lib/server/preset-store";
+
+type RouteContext = {
+  params: Promise<{ presetId: string }>;
+};
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { presetId } = await params;
+  if (!(await deletePreset(presetId))) {
+    return NextResponse.json({ error: `Unknown preset "${presetId}"` }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
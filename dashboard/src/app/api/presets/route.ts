@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { isBuiltInPreset, parseBriefPresetFile } from "@/lib/brief";
+import { listPresets, savePresets } from "@/lib/server/preset-store";
+
+export async function GET() {
+  return NextResponse.json({ presets: await listPresets() });
+}
+
+export async function POST(request: Request) {
+  const presets = parseBriefPresetFile(await request.json().catch(() => undefined));
+  if (!presets || presets.length === 0) {
+    return NextResponse.json({ error: "Malformed brief preset file" }, { status: 400 });
+  }
+  const builtIn = presets.find((preset) => isBuiltInPreset(preset.id));
+  if (builtIn) {
+    return NextResponse.json(
+      { error: `"${builtIn.name}" is a built-in preset — save it under another name` },
+      { status: 409 },
+    );
+  }
+  return NextResponse.json({ presets: await savePresets(presets) });
+}
@@ -0,0 +1,50 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { auditLogToCsv, parseAuditEntries } from "@/lib/curation-history";
+import { REVIEWER_COOKIE } from "@/lib/reviews";
+import { appendAuditEntries, getAuditLog } from "@/lib/server/audit-store";
+import { getProject } from "@/lib/server/project-store";
+import { getReviewer } from "@/lib/server/review-store";
+
+type RouteContext = {
+  params: Promise<{ projectId: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  if (!(await getProject(projectId))) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+
+  const entries = await getAuditLog(projectId);
+  const format = new URL(request.url).searchParams.get("format");
+  if (format === "csv" || format === "json") {
+    return new Response(
+      format === "csv" ? auditLogToCsv(entries) : JSON.stringify(entries, null, 2),
+      {
+        headers: {
+          "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+          "Content-Disposition": `attachment; filename="${projectId}-audit-log.${format}"`,
+          "Cache-Control": "no-store",
+        },
+      },
+    );
+  }
+  return NextResponse.json({ entries });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const inputs = parseAuditEntries(await request.json().catch(() => undefined));
+  if (!inputs) {
+    return NextResponse.json({ error: "Malformed audit entries" }, { status: 400 });
+  }
+  if (!(await getProject(projectId))) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+
+  const reviewerId = (await cookies()).get(REVIEWER_COOKIE)?.value;
+  const reviewer = reviewerId ? await getReviewer(reviewerId) : undefined;
+  await appendAuditEntries(projectId, reviewer?.name ?? null, inputs);
+  return NextResponse.json({ recorded: inputs.length });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { parseCurationState } from "@/lib/projects";
+import { getProject, saveCuration } from "@/lib/server/project-store";
+
+type RouteContext = {
+  params: Promise<{ projectId: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const project = await getProject(projectId);
+  if (!project) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+  return NextResponse.json({ curation: project.curation });
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const curation = parseCurationState(await request.json().catch(() => undefined));
+  if (!curation) {
+    return NextResponse.json({ error: "Malformed curation state" }, { status: 400 });
+  }
+
+  const project = await saveCuration(projectId, curation);
+  if (!project) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+  return NextResponse.json({ updatedAt: project.updatedAt });
+}
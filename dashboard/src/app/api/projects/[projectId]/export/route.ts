@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { rankWithCuration } from "@/lib/brief";
+import { parseDeliveryOptions } from "@/lib/delivery";
+import { loadCatalog } from "@/lib/server/catalog";
+import { createDeliveryArchive } from "@/lib/server/delivery";
+import { getShoot } from "@/lib/server/ingest";
+import { getProject } from "@/lib/server/project-store";
+
+type RouteContext = {
+  params: Promise<{ projectId: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const project = await getProject(projectId);
+  if (!project) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+
+  const shoot = project.shootId ? await getShoot(project.shootId) : undefined;
+  if (!shoot) {
+    return NextResponse.json(
+      { error: "Delivery export needs an ingested shoot folder" },
+      { status: 400 },
+    );
+  }
+
+  const curation = project.curation;
+  const selectedIds = new Set(curation?.selectedIds);
+  if (!curation || selectedIds.size === 0) {
+    return NextResponse.json({ error: "Shortlist is empty" }, { status: 400 });
+  }
+
+  const photos = await loadCatalog(shoot.id);
+  const rankings = rankWithCuration(photos, curation).filter(({ photo }) =>
+    selectedIds.has(photo.id),
+  );
+
+  const options = parseDeliveryOptions(new URL(request.url).searchParams);
+  const archive = createDeliveryArchive(shoot, project, rankings, options);
+  const fileName = `${shoot.id}-delivery.zip`;
+
+  return new Response(archive, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
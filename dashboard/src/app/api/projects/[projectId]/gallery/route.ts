@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { galleryStatus, proofingUrl } from "@/lib/proofing";
+import { getGallery, publishGallery } from "@/lib/server/gallery-store";
+import { getProject } from "@/lib/server/project-store";
+
+type RouteContext = {
+  params: Promise<{ projectId: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const project = await getProject(projectId);
+  if (!project) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+
+  const gallery = project.galleryToken ? await getGallery(project.galleryToken) : undefined;
+  return NextResponse.json({ gallery: gallery ? galleryStatus(gallery) : null });
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const project = await getProject(projectId);
+  if (!project) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+
+  const body = (await request.json().catch(() => undefined)) as
+    | { photoIds?: unknown; title?: unknown }
+    | undefined;
+  const photoIds = body?.photoIds;
+  if (!Array.isArray(photoIds) || !photoIds.every((id) => typeof id === "string")) {
+    return NextResponse.json({ error: "photoIds must be a list of photo ids" }, { status: 400 });
+  }
+  if (photoIds.length === 0) {
+    return NextResponse.json({ error: "Shortlist is empty" }, { status: 400 });
+  }
+
+  const title = typeof body?.title === "string" && body.title.trim() ? body.title.trim() : project.name;
+  const gallery = await publishGallery(project, photoIds, title);
+  return NextResponse.json({ gallery, url: proofingUrl(gallery.token) });
+}
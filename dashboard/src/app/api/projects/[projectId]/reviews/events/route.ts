@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getProject } from "@/lib/server/project-store";
+import { subscribeToReviews } from "@/lib/server/review-events";
+
+type RouteContext = {
+  params: Promise<{ projectId: string }>;
+};
+
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * Server-sent events stream of review votes for one project, so every open
+ * dashboard sees the other reviewers' picks as they happen. Comment lines keep
+ * proxies from closing an idle connection.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  if (!(await getProject(projectId))) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const unsubscribe = subscribeToReviews(projectId, (event) =>
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+      );
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_MS);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client.
+        }
+      });
+      send(": connected\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
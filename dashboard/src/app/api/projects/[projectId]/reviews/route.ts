@@ -0,0 +1,37 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { parseReviewUpdate, REVIEWER_COOKIE } from "@/lib/reviews";
+import { getProject } from "@/lib/server/project-store";
+import { getProjectReviews, getReviewer, recordVote } from "@/lib/server/review-store";
+
+type RouteContext = {
+  params: Promise<{ projectId: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  if (!(await getProject(projectId))) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+  return NextResponse.json(await getProjectReviews(projectId));
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const reviewerId = (await cookies()).get(REVIEWER_COOKIE)?.value;
+  const reviewer = reviewerId ? await getReviewer(reviewerId) : undefined;
+  if (!reviewer) {
+    return NextResponse.json({ error: "Sign in to vote" }, { status: 401 });
+  }
+
+  const update = parseReviewUpdate(await request.json().catch(() => undefined));
+  if (!update) {
+    return NextResponse.json({ error: "Malformed vote" }, { status: 400 });
+  }
+  if (!(await getProject(projectId))) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+
+  const vote = await recordVote(projectId, reviewer, update);
+  return NextResponse.json({ vote });
+}
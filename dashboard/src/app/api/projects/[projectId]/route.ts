@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getProject } from "@/lib/server/project-store";
+
+type RouteContext = {
+  params: Promise<{ projectId: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const project = await getProject(projectId);
+  if (!project) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+  return NextResponse.json({ project });
+}
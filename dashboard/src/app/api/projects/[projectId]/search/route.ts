@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { parseSemanticSearchParams } from "@/lib/semantic-search";
+import { getShoot } from "@/lib/server/ingest";
+import { getProject } from "@/lib/server/project-store";
+import { searchShoot } from "@/lib/server/semantic-search";
+
+type RouteContext = {
+  params: Promise<{ projectId: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const project = await getProject(projectId);
+  if (!project) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+  const query = parseSemanticSearchParams(new URL(request.url).searchParams);
+  if (!query) {
+    return NextResponse.json(
+      { error: "Pass a description as ?q= or a frame as ?like=" },
+      { status: 400 },
+    );
+  }
+  const shoot = project.shootId ? await getShoot(project.shootId) : undefined;
+  if (!shoot) {
+    return NextResponse.json(
+      { error: "Semantic search needs an ingested shoot folder" },
+      { status: 400 },
+    );
+  }
+
+  const result = await searchShoot(shoot, query);
+  if (!result.ok) return NextResponse.json({ error: result.error }, { status: 503 });
+  return NextResponse.json({ matches: result.matches });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { rankWithCuration } from "@/lib/brief";
+import { loadCatalog } from "@/lib/server/catalog";
+import { getShoot } from "@/lib/server/ingest";
+import { getProject } from "@/lib/server/project-store";
+import { readXmp, writeXmp } from "@/lib/server/xmp";
+
+type RouteContext = {
+  params: Promise<{ projectId: string }>;
+};
+
+const loadProjectShoot = async (projectId: string) => {
+  const project = await getProject(projectId);
+  const shoot = project?.shootId ? await getShoot(project.shootId) : undefined;
+  return { project, shoot };
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const { project, shoot } = await loadProjectShoot(projectId);
+  if (!project) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+  if (!shoot) {
+    return NextResponse.json({ error: "XMP sync needs an ingested shoot folder" }, { status: 400 });
+  }
+
+  return NextResponse.json({ ratings: await readXmp(shoot) });
+}
+
+export async function POST(_request: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const { project, shoot } = await loadProjectShoot(projectId);
+  if (!project) {
+    return NextResponse.json({ error: `Unknown project "${projectId}"` }, { status: 404 });
+  }
+  if (!shoot) {
+    return NextResponse.json({ error: "XMP sync needs an ingested shoot folder" }, { status: 400 });
+  }
+
+  const rankings = rankWithCuration(await loadCatalog(shoot.id), project.curation);
+  const result = await writeXmp(
+    shoot,
+    rankings,
+    new Set(project.curation?.selectedIds),
+    project.curation?.ratings,
+  );
+  return NextResponse.json(result);
+}
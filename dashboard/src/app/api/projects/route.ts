@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { listProjects } from "@/lib/server/project-store";
+
+export async function GET() {
+  return NextResponse.json({ projects: await listProjects() });
+}
@@ -0,0 +1,33 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { parseReviewerLogin, REVIEWER_COOKIE } from "@/lib/reviews";
+import { getReviewer, signInReviewer } from "@/lib/server/review-store";
+
+const SESSION_MAX_AGE = 60 * 60 * 24 * 90;
+
+export async function GET() {
+  const reviewerId = (await cookies()).get(REVIEWER_COOKIE)?.value;
+  const reviewer = reviewerId ? await getReviewer(reviewerId) : undefined;
+  return NextResponse.json({ reviewer: reviewer ?? null });
+}
+
+export async function POST(request: Request) {
+  const login = parseReviewerLogin(await request.json().catch(() => undefined));
+  if (!login) {
+    return NextResponse.json({ error: "A name and role are required" }, { status: 400 });
+  }
+
+  const reviewer = await signInReviewer(login);
+  (await cookies()).set(REVIEWER_COOKIE, reviewer.id, {
+    httpOnly: true,
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  });
+  return NextResponse.json({ reviewer });
+}
+
+export async function DELETE() {
+  (await cookies()).delete(REVIEWER_COOKIE);
+  return NextResponse.json({ reviewer: null });
+}
@@ -0,0 +1,28 @@
+import { readFile } from "node:fs/promises";
+import { NextResponse } from "next/server";
+import { getShoot, resolvePhotoAsset } from "@/lib/server/ingest";
+import { isPhotoVariant } from "@/lib/shoots";
+
+type RouteContext = {
+  params: Promise<{ shootId: string; photoId: string; variant: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { shootId, photoId, variant } = await params;
+  if (!isPhotoVariant(variant)) {
+    return NextResponse.json({ error: `Unknown variant "${variant}"` }, { status: 400 });
+  }
+
+  const shoot = await getShoot(shootId);
+  const assetPath = shoot ? await resolvePhotoAsset(shoot, photoId, variant) : undefined;
+  if (!assetPath) {
+    return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(await readFile(assetPath)), {
+    headers: {
+      "Content-Type": "image/jpeg",
+      "Cache-Control": variant === "original" ? "no-cache" : "private, max-age=3600",
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getShoot, ingestShoot } from "@/lib/server/ingest";
+
+type RouteContext = {
+  params: Promise<{ shootId: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { shootId } = await params;
+  const shoot = await getShoot(shootId);
+  if (!shoot) {
+    return NextResponse.json({ error: `Unknown shoot "${shootId}"` }, { status: 404 });
+  }
+
+  const photos = await ingestShoot(shoot);
+  return NextResponse.json({ shoot: { id: shoot.id, name: shoot.name }, photos });
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { listShoots } from "@/lib/server/ingest";
+import type { ShootSummary } from "@/lib/shoots";
+
+export async function GET() {
+  const shoots = await listShoots();
+  return NextResponse.json({
+    shoots: shoots.map(({ id, name }): ShootSummary => ({ id, name })),
+  });
+}
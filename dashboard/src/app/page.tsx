@@ -1,6 +1,44 @@
+import { cookies } from "next/headers";
 import { DashboardClient } from "@/components/dashboard-client";
-import { photoDataset } from "@/lib/photo-data";
+import { REVIEWER_COOKIE } from "@/lib/reviews";
+import { loadCatalog } from "@/lib/server/catalog";
+import { clipModelDir } from "@/lib/server/config";
+import { getGallery } from "@/lib/server/gallery-store";
+import { listShoots } from "@/lib/server/ingest";
+import { ensureProject } from "@/lib/server/project-store";
+import { getProjectReviews, getReviewer } from "@/lib/server/review-store";
+import { decodeViewState, type ViewSearchParams } from "@/lib/view-state";
 
-export default function Home() {
-  return <DashboardClient photos={photoDataset} />;
+type HomeProps = {
+  searchParams: Promise<ViewSearchParams>;
+};
+
+export default async function Home({ searchParams }: HomeProps) {
+  const params = await searchParams;
+  const requestedShoot = typeof params.shoot === "string" ? params.shoot : undefined;
+  const shoots = await listShoots();
+  const shoot = shoots.find((item) => item.id === requestedShoot) ?? shoots[0];
+  const project = shoot
+    ? await ensureProject(shoot.id, shoot.name, shoot.id)
+    : await ensureProject("demo", "Demo shoot", null);
+  const photos = await loadCatalog(project.shootId);
+  const gallery = project.galleryToken ? await getGallery(project.galleryToken) : undefined;
+  const view = decodeViewState(params);
+  const reviewerId = (await cookies()).get(REVIEWER_COOKIE)?.value;
+  const reviewer = reviewerId ? await getReviewer(reviewerId) : undefined;
+  const reviews = await getProjectReviews(project.id);
+
+  return (
+    <DashboardClient
+      photos={photos}
+      projectId={project.id}
+      initialCuration={
+        view ? { selectedIds: [], ...project.curation, ...view } : project.curation
+      }
+      initialGallery={gallery ?? null}
+      initialReviewer={reviewer ?? null}
+      initialReviews={reviews}
+      semanticSearchAvailable={Boolean(project.shootId && clipModelDir)}
+    />
+  );
 }
@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { ProofingClient } from "@/components/proofing-client";
+import { proofingPhoto } from "@/lib/proofing";
+import { loadCatalog } from "@/lib/server/catalog";
+import { getGallery } from "@/lib/server/gallery-store";
+import { getProject } from "@/lib/server/project-store";
+
+type ProofPageProps = {
+  params: Promise<{ token: string }>;
+};
+
+export const metadata: Metadata = {
+  title: "Proofing gallery",
+  robots: { index: false, follow: false },
+};
+
+export default async function ProofPage({ params }: ProofPageProps) {
+  const { token } = await params;
+  const gallery = await getGallery(token);
+  const project = gallery ? await getProject(gallery.projectId) : undefined;
+  if (!gallery || !project) notFound();
+
+  const catalog = new Map((await loadCatalog(project.shootId)).map((photo) => [photo.id, photo]));
+  const photos = gallery.photoIds.flatMap((id) => {
+    const photo = catalog.get(id);
+    return photo ? [proofingPhoto(gallery.token, photo)] : [];
+  });
+
+  return (
+    <ProofingClient
+      token={gallery.token}
+      title={gallery.title}
+      photos={photos}
+      initialResponses={gallery.responses}
+    />
+  );
+}
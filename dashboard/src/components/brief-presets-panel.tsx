@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useRef, useState, type ChangeEvent } from "react";
+import { isBuiltInPreset, presetIdFor, toBriefPresetFile, type BriefPreset } from "@/lib/brief";
+import type { ClientProfile, ScoringWeights } from "@/lib/scoring";
+
+type BriefPresetsPanelProps = {
+  profile: ClientProfile;
+  weights: ScoringWeights;
+  onApply: (preset: BriefPreset) => void;
+};
+
+type PresetsResponse = {
+  presets?: BriefPreset[];
+  error?: string;
+};
+
+const downloadJson = (fileName: string, value: unknown) => {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: "application/json" });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+export const BriefPresetsPanel = ({ profile, weights, onApply }: BriefPresetsPanelProps) => {
+  const [presets, setPresets] = useState<BriefPreset[]>([]);
+  const [activeId, setActiveId] = useState("");
+  const [draftName, setDraftName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const active = presets.find((preset) => preset.id === activeId);
+  const customPresets = presets.filter((preset) => !isBuiltInPreset(preset.id));
+
+  const request = async (url: string, init?: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      if (response.status === 204) return true;
+      const body = (await response.json()) as PresetsResponse;
+      if (!response.ok) throw new Error(body.error ?? `Request failed with ${response.status}`);
+      if (body.presets) setPresets(body.presets);
+      return true;
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Something went wrong");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    fetch("/api/presets")
+      .then((response) => response.json() as Promise<PresetsResponse>)
+      .then((body) => setPresets(body.presets ?? []))
+      .catch(() => setError("Could not load brief presets"));
+  }, []);
+
+  const postPresets = (body: unknown) =>
+    request("/api/presets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  const saveCurrent = async () => {
+    const name = draftName.trim();
+    if (!name) return;
+    if (await postPresets({ name, description: "", profile, weights })) {
+      setActiveId(presetIdFor(name));
+      setDraftName("");
+    }
+  };
+
+  const removeActive = async () => {
+    if (!active) return;
+    if (await request(`/api/presets/${active.id}`, { method: "DELETE" })) {
+      setPresets((prev) => prev.filter((preset) => preset.id !== active.id));
+      setActiveId("");
+    }
+  };
+
+  const importFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      await postPresets(JSON.parse(await file.text()));
+    } catch {
+      setError(`${file.name} is not valid JSON`);
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-950/80 p-6 shadow-lg shadow-black/20">
+      <h2 className="text-lg font-semibold text-white">Brief Presets</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Start from a saved brief, then fine-tune priorities and preferences below.
+      </p>
+      <div className="mt-5 space-y-4 text-sm">
+        <div className="flex gap-2">
+          <select
+            value={activeId}
+            onChange={(event) => setActiveId(event.target.value)}
+            className="min-w-0 flex-1 rounded-2xl border border-white/10 bg-slate-900 px-3 py-2 text-white outline-none focus:border-blue-400/70"
+          >
+            <option value="">Choose a preset…</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+                {isBuiltInPreset(preset.id) ? "" : " (saved)"}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => active && onApply(active)}
+            disabled={!active}
+            className="rounded-2xl bg-blue-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-blue-400 disabled:opacity-40"
+          >
+            Apply
+          </button>
+        </div>
+        {active && (
+          <div className="flex items-start justify-between gap-3 text-xs text-slate-400">
+            <p>{active.description || "No description."}</p>
+            <div className="flex shrink-0 gap-3 font-semibold uppercase tracking-wide">
+              <button
+                type="button"
+                onClick={() => downloadJson(`${active.id}.json`, toBriefPresetFile([active]))}
+                className="text-slate-300 hover:text-white"
+              >
+                Export
+              </button>
+              {!isBuiltInPreset(active.id) && (
+                <button
+                  type="button"
+                  onClick={() => void removeActive()}
+                  disabled={busy}
+                  className="text-rose-300 hover:text-rose-200"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <input
+            value={draftName}
+            onChange={(event) => setDraftName(event.target.value)}
+            placeholder="Save current brief as…"
+            className="min-w-0 flex-1 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-white outline-none focus:border-blue-400/70"
+          />
+          <button
+            type="button"
+            onClick={() => void saveCurrent()}
+            disabled={busy || !presetIdFor(draftName)}
+            className="rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/30 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+        <div className="flex gap-3 text-xs font-semibold uppercase tracking-wide">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="text-emerald-300 hover:text-emerald-200"
+          >
+            Import JSON
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadJson("brief-presets.json", toBriefPresetFile(customPresets))}
+            disabled={customPresets.length === 0}
+            className="text-emerald-300 hover:text-emerald-200 disabled:opacity-40"
+          >
+            Export saved presets
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={(event) => void importFile(event)}
+            className="hidden"
+          />
+        </div>
+        {error && <p className="text-xs text-rose-300">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { ExplainedPhoto } from "@/lib/score-breakdown";
+import { scoreToLabel } from "@/lib/score-tiers";
+
+type CatalogGridProps = {
+  entries: ExplainedPhoto[];
+  selectedIds: Set<string>;
+  onToggle: (id: string) => void;
+  onOpen: (id: string) => void;
+};
+
+type CatalogSort = "score" | "capturedAt" | "location" | "faces";
+
+type WindowRange = {
+  columns: number;
+  firstRow: number;
+  lastRow: number;
+};
+
+const sortOptions: Array<{ value: CatalogSort; label: string }> = [
+  { value: "score", label: "Score" },
+  { value: "capturedAt", label: "Capture time" },
+  { value: "location", label: "Location" },
+  { value: "faces", label: "Faces" },
+];
+
+const ROW_HEIGHT = 232;
+const MIN_TILE_WIDTH = 180;
+const GAP = 12;
+const OVERSCAN_ROWS = 3;
+const PAGE_SIZE = 120;
+
+const sorters: Record<CatalogSort, (a: ExplainedPhoto, b: ExplainedPhoto) => number> = {
+  score: (a, b) => b.score - a.score,
+  capturedAt: (a, b) => a.photo.capturedAt.localeCompare(b.photo.capturedAt),
+  location: (a, b) => a.photo.location.localeCompare(b.photo.location) || b.score - a.score,
+  faces: (a, b) => b.photo.faces - a.photo.faces || b.score - a.score,
+};
+
+/**
+ * Windowed grid over the whole filtered catalog. Only the rows around the
+ * viewport are mounted, and the scrollable height grows a page at a time as
+ * the reader nears the end, so 10k frames cost no more than a few hundred.
+ */
+export const CatalogGrid = ({ entries, selectedIds, onToggle, onOpen }: CatalogGridProps) => {
+  const [sort, setSort] = useState<CatalogSort>("score");
+  const [loaded, setLoaded] = useState(PAGE_SIZE);
+  const [range, setRange] = useState<WindowRange>({ columns: 4, firstRow: 0, lastRow: 8 });
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const sorted = useMemo(
+    () => (sort === "score" ? entries : [...entries].sort(sorters[sort])),
+    [entries, sort],
+  );
+  const visibleCount = Math.min(loaded, sorted.length);
+  const rowCount = Math.ceil(visibleCount / range.columns);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => {
+      const bounds = container.getBoundingClientRect();
+      const columns = Math.max(1, Math.floor((bounds.width + GAP) / (MIN_TILE_WIDTH + GAP)));
+      const firstRow = Math.max(0, Math.floor(-bounds.top / ROW_HEIGHT) - OVERSCAN_ROWS);
+      const lastRow = Math.ceil((window.innerHeight - bounds.top) / ROW_HEIGHT) + OVERSCAN_ROWS;
+      setRange((prev) =>
+        prev.columns === columns && prev.firstRow === firstRow && prev.lastRow === lastRow
+          ? prev
+          : { columns, firstRow, lastRow },
+      );
+      if ((lastRow + 1) * columns >= loaded) {
+        setLoaded((prev) => Math.min(sorted.length, prev + PAGE_SIZE));
+      }
+    };
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    window.addEventListener("scroll", measure, { passive: true });
+    window.addEventListener("resize", measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener("scroll", measure);
+      window.removeEventListener("resize", measure);
+    };
+  }, [loaded, sorted.length]);
+
+  const rows = [];
+  for (let row = range.firstRow; row < Math.min(rowCount, range.lastRow + 1); row += 1) {
+    rows.push(row);
+  }
+
+  return (
+    <div className="rounded-[2.5rem] border border-white/10 bg-slate-950/80 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.3rem] text-slate-400">
+            Full catalog
+          </p>
+          <h2 className="text-2xl font-semibold text-white">
+            {sorted.length.toLocaleString()} frames
+          </h2>
+        </div>
+        <div className="flex gap-2 text-xs">
+          {sortOptions.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setSort(option.value)}
+              className={`rounded-full border px-3 py-2 font-semibold uppercase tracking-wide transition ${
+                sort === option.value
+                  ? "border-blue-400/70 bg-blue-500/20 text-blue-100"
+                  : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div
+        ref={containerRef}
+        className="relative mt-6"
+        style={{ height: Math.max(0, rowCount * ROW_HEIGHT - GAP) }}
+      >
+        {rows.map((row) => (
+          <div
+            key={row}
+            className="absolute inset-x-0 grid"
+            style={{
+              top: row * ROW_HEIGHT,
+              height: ROW_HEIGHT - GAP,
+              gap: GAP,
+              gridTemplateColumns: `repeat(${range.columns}, minmax(0, 1fr))`,
+            }}
+          >
+            {sorted
+              .slice(row * range.columns, Math.min(visibleCount, (row + 1) * range.columns))
+              .map(({ photo, score }) => {
+                const isSelected = selectedIds.has(photo.id);
+                return (
+                  <article
+                    key={photo.id}
+                    className={`group relative flex flex-col overflow-hidden rounded-2xl border bg-slate-900 ${
+                      isSelected ? "border-emerald-400/70" : "border-white/10"
+                    }`}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => onOpen(photo.id)}
+                      aria-label={`Open ${photo.title} in the loupe`}
+                      className="relative flex-1 cursor-zoom-in"
+                    >
+                      <Image
+                        src={photo.thumbnailUrl}
+                        alt={photo.title}
+                        fill
+                        sizes={`${MIN_TILE_WIDTH * 2}px`}
+                        className="object-cover"
+                      />
+                    </button>
+                    <div className="flex items-center justify-between gap-2 px-3 py-2 text-xs">
+                      <div className="min-w-0">
+                        <p className="truncate font-semibold text-white">{photo.title}</p>
+                        <p className="truncate text-slate-400">
+                          {scoreToLabel(score)} · {(score * 100).toFixed(0)}% · {photo.location}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => onToggle(photo.id)}
+                        aria-pressed={isSelected}
+                        className={`shrink-0 rounded-full border px-2 py-1 font-semibold uppercase tracking-wide transition ${
+                          isSelected
+                            ? "border-emerald-500 bg-emerald-500/90 text-slate-950"
+                            : "border-white/20 text-slate-200 hover:border-white/50"
+                        }`}
+                      >
+                        {isSelected ? "✓" : "Pick"}
+                      </button>
+                    </div>
+                  </article>
+                );
+              })}
+          </div>
+        ))}
+      </div>
+      {visibleCount < sorted.length && (
+        <p className="mt-4 text-center text-xs text-slate-500">
+          Showing {visibleCount.toLocaleString()} of {sorted.length.toLocaleString()} — keep
+          scrolling to load more
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useRef, useState, type PointerEvent, type WheelEvent } from "react";
+import type { Photo } from "@/lib/photo-data";
+import { analyzedMetrics } from "@/lib/photo-metrics";
+import type { ExplainedPhoto } from "@/lib/score-breakdown";
+import { scoreToLabel } from "@/lib/score-tiers";
+import { fullResolutionUrl } from "@/lib/shoots";
+import { ScoreBreakdownView } from "./score-breakdown-view";
+
+type CompareViewProps = {
+  entries: ExplainedPhoto[];
+  selectedIds: Set<string>;
+  onKeep: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+};
+
+type Viewport = {
+  scale: number;
+  x: number;
+  y: number;
+};
+
+export const MAX_COMPARED_FRAMES = 4;
+
+const MAX_SCALE = 8;
+const FULL_RESOLUTION_SCALE = 1.5;
+
+const fitViewport: Viewport = { scale: 1, x: 0, y: 0 };
+
+const clamp = (value: number, limit: number) => Math.min(limit, Math.max(-limit, value));
+
+/** Keeps the pan inside the zoomed image; offsets are fractions of the panel size. */
+const constrain = ({ scale, x, y }: Viewport): Viewport => {
+  const limit = (scale - 1) / 2;
+  return { scale, x: clamp(x, limit), y: clamp(y, limit) };
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const metricRows = (photo: Photo): Array<[string, number]> => {
+  const metrics = analyzedMetrics(photo);
+  const rows: Array<[string, number]> = [
+    ["Sharpness", metrics.sharpness],
+    ["Emotion", metrics.emotion],
+    ["Client fit", metrics.clientRelevance],
+  ];
+  if (metrics.exposure !== undefined) {
+    rows.push(
+      ["Exposure", metrics.exposure],
+      ["Clipping", metrics.clipping ?? 0],
+      ["Noise", metrics.noise ?? 0],
+    );
+  }
+  return rows;
+};
+
+export const CompareView = ({
+  entries,
+  selectedIds,
+  onKeep,
+  onRemove,
+  onClose,
+}: CompareViewProps) => {
+  const [viewport, setViewport] = useState<Viewport>(fitViewport);
+  const dragRef = useRef<{ x: number; y: number; start: Viewport } | null>(null);
+
+  useEffect(() => {
+    const { overflow } = document.body.style;
+    document.body.style.overflow = "hidden";
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => {
+      document.body.style.overflow = overflow;
+      window.removeEventListener("keydown", handleKey);
+    };
+  }, [onClose]);
+
+  const zoomBy = (factor: number) =>
+    setViewport((prev) =>
+      constrain({ ...prev, scale: Math.min(MAX_SCALE, Math.max(1, prev.scale * factor)) }),
+    );
+
+  const handleWheel = (event: WheelEvent<HTMLDivElement>) =>
+    zoomBy(event.deltaY < 0 ? 1.2 : 1 / 1.2);
+
+  const startPan = (event: PointerEvent<HTMLDivElement>) => {
+    dragRef.current = { x: event.clientX, y: event.clientY, start: viewport };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const pan = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    setViewport(
+      constrain({
+        scale: drag.start.scale,
+        x: drag.start.x + (event.clientX - drag.x) / bounds.width,
+        y: drag.start.y + (event.clientY - drag.y) / bounds.height,
+      }),
+    );
+  };
+
+  const showFullResolution = viewport.scale >= FULL_RESOLUTION_SCALE;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Compare frames"
+      className="fixed inset-0 z-50 flex flex-col bg-slate-950 text-slate-100"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 border-b border-white/10 px-6 py-3 text-sm">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.3rem] text-slate-400">
+            Compare
+          </p>
+          <h2 className="font-semibold text-white">
+            {entries.length} candidate frames · scroll to zoom, drag to pan
+          </h2>
+        </div>
+        <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide">
+          <button
+            type="button"
+            onClick={() => zoomBy(1 / 1.5)}
+            className="rounded-full border border-white/20 px-3 py-1 transition hover:border-white/50"
+          >
+            −
+          </button>
+          <span className="w-14 text-center text-slate-300">{percent(viewport.scale)}</span>
+          <button
+            type="button"
+            onClick={() => zoomBy(1.5)}
+            className="rounded-full border border-white/20 px-3 py-1 transition hover:border-white/50"
+          >
+            +
+          </button>
+          <button
+            type="button"
+            onClick={() => setViewport(fitViewport)}
+            className="rounded-full border border-white/20 px-3 py-1 transition hover:border-white/50"
+          >
+            Fit
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="ml-4 rounded-full border border-white/20 px-3 py-1 text-slate-200 transition hover:border-white/50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+      <div
+        className={`grid flex-1 gap-4 overflow-y-auto p-6 ${
+          entries.length > 2 ? "md:grid-cols-2 xl:grid-cols-4" : "md:grid-cols-2"
+        }`}
+      >
+        {entries.map(({ photo, score, breakdown }) => {
+          const isSelected = selectedIds.has(photo.id);
+          return (
+            <div key={photo.id} className="flex min-w-0 flex-col gap-4">
+              <div
+                onWheel={handleWheel}
+                onPointerDown={startPan}
+                onPointerMove={pan}
+                onPointerUp={() => (dragRef.current = null)}
+                className={`relative aspect-[4/3] touch-none overflow-hidden rounded-2xl border bg-black ${
+                  isSelected ? "border-emerald-400/70" : "border-white/10"
+                } ${viewport.scale > 1 ? "cursor-grab active:cursor-grabbing" : "cursor-zoom-in"}`}
+              >
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={showFullResolution ? fullResolutionUrl(photo.url) : photo.url}
+                  alt={photo.title}
+                  draggable={false}
+                  className="h-full w-full select-none object-contain"
+                  style={{
+                    transform: `translate(${viewport.x * 100}%, ${viewport.y * 100}%) scale(${viewport.scale})`,
+                  }}
+                />
+                {isSelected && (
+                  <span className="absolute left-3 top-3 rounded-full bg-emerald-500 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-950">
+                    Shortlisted
+                  </span>
+                )}
+              </div>
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <h3 className="font-semibold text-white">{photo.title}</h3>
+                  <p className="text-xs text-slate-400">
+                    {scoreToLabel(score)} · {(score * 100).toFixed(1)}% alignment
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onRemove(photo.id)}
+                  className="text-xs font-semibold uppercase tracking-wide text-slate-400 hover:text-slate-200"
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-center text-xs">
+                {metricRows(photo).map(([label, value]) => (
+                  <div key={label} className="rounded-xl bg-white/5 px-2 py-2 font-semibold">
+                    <p className="text-[0.6rem] uppercase tracking-wide text-slate-400">{label}</p>
+                    {percent(value)}
+                  </div>
+                ))}
+              </div>
+              <ScoreBreakdownView breakdown={breakdown} tone="dark" />
+              <button
+                type="button"
+                onClick={() => onKeep(photo.id)}
+                className="mt-auto rounded-full bg-emerald-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400"
+              >
+                Keep this one, reject the others
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
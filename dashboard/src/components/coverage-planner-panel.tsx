@@ -0,0 +1,145 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { checkCoverage, planCoverage, type CoverageConstraints } from "@/lib/coverage";
+import type { Photo } from "@/lib/photo-data";
+import type { RankedPhoto } from "@/lib/scoring";
+
+type CoveragePlannerPanelProps = {
+  rankings: RankedPhoto[];
+  shortlist: Photo[];
+  requiredShots: string[];
+  locations: string[];
+  onApplyPlan: (photoIds: string[]) => void;
+};
+
+const moodCapOptions = [null, 5, 10, 20];
+
+const kindLabels = {
+  shot: "Shot type",
+  location: "Location",
+  mood: "Mood cap",
+};
+
+export const CoveragePlannerPanel = ({
+  rankings,
+  shortlist,
+  requiredShots,
+  locations,
+  onApplyPlan,
+}: CoveragePlannerPanelProps) => {
+  const [targetSize, setTargetSize] = useState(40);
+  const [minPerRequiredShot, setMinPerRequiredShot] = useState(3);
+  const [maxPerMood, setMaxPerMood] = useState<number | null>(null);
+  const [lastPlan, setLastPlan] = useState<{ size: number; unmet: number } | null>(null);
+
+  const constraints = useMemo<CoverageConstraints>(
+    () => ({ targetSize, requiredShots, minPerRequiredShot, locations, maxPerMood }),
+    [targetSize, requiredShots, minPerRequiredShot, locations, maxPerMood],
+  );
+  const checklist = useMemo(() => checkCoverage(shortlist, constraints), [shortlist, constraints]);
+  const gaps = checklist.filter((item) => !item.satisfied);
+
+  const autoCurate = () => {
+    const plan = planCoverage(rankings, constraints);
+    onApplyPlan(plan.photoIds);
+    setLastPlan({ size: plan.photoIds.length, unmet: plan.unmet.length });
+  };
+
+  return (
+    <div className="rounded-[2.5rem] border border-white/10 bg-slate-950/80 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.3rem] text-slate-400">
+            Coverage planner
+          </p>
+          <h2 className="text-2xl font-semibold text-white">
+            {gaps.length === 0 ? "Brief fully covered" : `${gaps.length} coverage gaps`}
+          </h2>
+        </div>
+        <button
+          type="button"
+          onClick={autoCurate}
+          className="rounded-full bg-blue-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-blue-400"
+        >
+          Auto-curate {targetSize} frames
+        </button>
+      </div>
+      <div className="mt-6 grid gap-4 text-sm md:grid-cols-3">
+        <label className="flex flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Gallery size
+          </span>
+          <input
+            type="number"
+            min={1}
+            value={targetSize}
+            onChange={(event) => setTargetSize(Math.max(1, Number(event.target.value) || 1))}
+            className="rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-white outline-none focus:border-blue-400/70"
+          />
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Per must-have shot
+          </span>
+          <input
+            type="number"
+            min={0}
+            value={minPerRequiredShot}
+            onChange={(event) => setMinPerRequiredShot(Math.max(0, Number(event.target.value) || 0))}
+            className="rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-white outline-none focus:border-blue-400/70"
+          />
+        </label>
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Max per mood
+          </span>
+          <div className="flex gap-2">
+            {moodCapOptions.map((value) => (
+              <button
+                key={value ?? "none"}
+                type="button"
+                onClick={() => setMaxPerMood(value)}
+                className={`flex-1 rounded-xl border px-2 py-2 text-xs font-semibold uppercase tracking-wide transition ${
+                  maxPerMood === value
+                    ? "border-blue-400/70 bg-blue-500/20 text-blue-100"
+                    : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
+                }`}
+              >
+                {value ?? "Any"}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      {lastPlan && (
+        <p className="mt-4 text-xs text-slate-400">
+          Shortlist replaced with {lastPlan.size} frames
+          {lastPlan.unmet > 0
+            ? ` — ${lastPlan.unmet} constraints could not be met within the gallery size.`
+            : " covering every constraint."}
+        </p>
+      )}
+      <ul className="mt-6 grid gap-2 text-xs md:grid-cols-2">
+        {checklist.map((item) => (
+          <li
+            key={`${item.kind}-${item.key}`}
+            className={`flex items-center justify-between rounded-2xl border px-4 py-2 ${
+              item.satisfied
+                ? "border-emerald-400/30 bg-emerald-500/10 text-emerald-100"
+                : "border-amber-400/40 bg-amber-500/10 text-amber-100"
+            }`}
+          >
+            <span>
+              {item.satisfied ? "✓" : "⚠"} {kindLabels[item.kind]}: {item.key}
+            </span>
+            <span className="font-semibold">
+              {item.count}
+              {item.kind === "mood" ? ` / max ${item.limit}` : ` / ${item.limit}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+"use client";
+
+import { useEffect, useRef, useState, type MouseEvent, type PointerEvent } from "react";
+import type { ExplainedPhoto } from "@/lib/score-breakdown";
+import { scoreToLabel } from "@/lib/score-tiers";
+import { fullResolutionUrl } from "@/lib/shoots";
+
+type CullingLoupeProps = {
+  entries: ExplainedPhoto[];
+  initialIndex: number;
+  selectedIds: Set<string>;
+  ratings: Record<string, number>;
+  onSetSelected: (id: string, selected: boolean) => void;
+  onRate: (id: string, rating: number | null) => void;
+  onClose: () => void;
+};
+
+type FocusPoint = {
+  x: number;
+  y: number;
+};
+
+const PRELOAD_AHEAD = 3;
+
+const shortcuts = [
+  ["← →", "Previous / next"],
+  ["P", "Shortlist & next"],
+  ["X", "Reject & next"],
+  ["1–5", "Rate"],
+  ["0", "Clear rating"],
+  ["Z", "Zoom 100%"],
+  ["Esc", "Close"],
+];
+
+/**
+ * Full-screen culling view. The frame order is fixed when the loupe opens so
+ * shortlisting or rejecting never reshuffles the frames still to come.
+ */
+export const CullingLoupe = ({
+  entries,
+  initialIndex,
+  selectedIds,
+  ratings,
+  onSetSelected,
+  onRate,
+  onClose,
+}: CullingLoupeProps) => {
+  const [frames] = useState(entries);
+  const [index, setIndex] = useState(initialIndex);
+  const [focus, setFocus] = useState<FocusPoint | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; left: number; top: number } | null>(null);
+
+  const current = frames[index];
+  const isSelected = current ? selectedIds.has(current.photo.id) : false;
+  const rating = current ? ratings[current.photo.id] : undefined;
+
+  const step = (delta: number) => {
+    setIndex((prev) => Math.min(frames.length - 1, Math.max(0, prev + delta)));
+    setFocus(null);
+  };
+
+  useEffect(() => {
+    const { overflow } = document.body.style;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, []);
+
+  useEffect(() => {
+    frames.slice(index + 1, index + 1 + PRELOAD_AHEAD).forEach(({ photo }) => {
+      const image = new Image();
+      image.src = photo.url;
+    });
+  }, [frames, index]);
+
+  useEffect(() => {
+    if (!current) return;
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key === "arrowright" || key === "arrowdown") {
+        step(1);
+      } else if (key === "arrowleft" || key === "arrowup") {
+        step(-1);
+      } else if (key === "p" || key === "x") {
+        onSetSelected(current.photo.id, key === "p");
+        step(1);
+      } else if (/^[0-5]$/.test(key)) {
+        onRate(current.photo.id, key === "0" ? null : Number(key));
+      } else if (key === "z") {
+        setFocus((prev) => (prev ? null : { x: 0.5, y: 0.5 }));
+      } else if (key === "escape") {
+        if (focus) {
+          setFocus(null);
+        } else {
+          onClose();
+        }
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  });
+
+  const zoomAt = (event: MouseEvent<HTMLImageElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    setFocus({
+      x: (event.clientX - bounds.left) / bounds.width,
+      y: (event.clientY - bounds.top) / bounds.height,
+    });
+  };
+
+  const centerOnFocus = (image: HTMLImageElement) => {
+    const viewport = viewportRef.current;
+    if (!viewport || !focus) return;
+    viewport.scrollLeft = focus.x * image.naturalWidth - viewport.clientWidth / 2;
+    viewport.scrollTop = focus.y * image.naturalHeight - viewport.clientHeight / 2;
+  };
+
+  const startPan = (event: PointerEvent<HTMLDivElement>) => {
+    const viewport = viewportRef.current;
+    if (!viewport || !focus) return;
+    dragRef.current = {
+      x: event.clientX,
+      y: event.clientY,
+      left: viewport.scrollLeft,
+      top: viewport.scrollTop,
+    };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const pan = (event: PointerEvent<HTMLDivElement>) => {
+    const viewport = viewportRef.current;
+    const drag = dragRef.current;
+    if (!viewport || !drag) return;
+    viewport.scrollLeft = drag.left - (event.clientX - drag.x);
+    viewport.scrollTop = drag.top - (event.clientY - drag.y);
+  };
+
+  if (!current) return null;
+  const { photo, score } = current;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Culling loupe"
+      className="fixed inset-0 z-50 flex flex-col bg-black text-slate-100"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 border-b border-white/10 px-6 py-3 text-sm">
+        <div className="flex items-center gap-4">
+          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+            {index + 1} / {frames.length}
+          </span>
+          <h2 className="font-semibold text-white">{photo.title}</h2>
+          <span className="rounded-full bg-blue-500/90 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white">
+            {scoreToLabel(score)} · {(score * 100).toFixed(0)}%
+          </span>
+          <span className="text-xs text-slate-400">
+            Sharpness {(photo.metrics.sharpness * 100).toFixed(0)}%
+          </span>
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="text-base text-amber-300" aria-label={`${rating ?? 0} of 5 stars`}>
+            {"★".repeat(rating ?? 0)}
+            <span className="text-slate-700">{"★".repeat(5 - (rating ?? 0))}</span>
+          </span>
+          <span
+            className={`rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wide ${
+              isSelected ? "bg-emerald-500 text-slate-950" : "bg-white/10 text-slate-300"
+            }`}
+          >
+            {isSelected ? "Shortlisted" : "Not shortlisted"}
+          </span>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+      <div
+        ref={viewportRef}
+        onPointerDown={startPan}
+        onPointerMove={pan}
+        onPointerUp={() => (dragRef.current = null)}
+        className={`relative flex-1 ${
+          focus ? "cursor-grab overflow-auto active:cursor-grabbing" : "overflow-hidden"
+        }`}
+      >
+        {focus ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            key={`${photo.id}-full`}
+            src={fullResolutionUrl(photo.url)}
+            alt={photo.title}
+            draggable={false}
+            onLoad={(event) => centerOnFocus(event.currentTarget)}
+            onDoubleClick={() => setFocus(null)}
+            className="max-w-none select-none"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center p-6">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              key={photo.id}
+              src={photo.url}
+              alt={photo.title}
+              onClick={zoomAt}
+              className="max-h-full max-w-full cursor-zoom-in object-contain"
+            />
+          </div>
+        )}
+      </div>
+      <div className="flex flex-wrap justify-center gap-4 border-t border-white/10 px-6 py-3 text-xs text-slate-400">
+        {shortcuts.map(([key, action]) => (
+          <span key={key}>
+            <kbd className="rounded border border-white/20 bg-white/5 px-1.5 py-0.5 font-mono text-slate-200">
+              {key}
+            </kbd>{" "}
+            {action}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,140 +1,553 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { defaultProfile } from "@/lib/brief";
+import { stackBursts, type StackedPhoto } from "@/lib/bursts";
+import { medianLook } from "@/lib/color-grading";
+import {
+  applyShortlistChange,
+  shortlistChange,
+  withRating,
+  type AuditAction,
+  type CurationChange,
+} from "@/lib/curation-history";
 import type { Photo } from "@/lib/photo-data";
+import { analyzedMetrics } from "@/lib/photo-metrics";
+import { buildPeople, checkPeopleRules, type PeopleRule } from "@/lib/people";
+import { parseQuery, semanticQueryOf, type QueryContext } from "@/lib/photo-query";
+import type { ProofingGallery } from "@/lib/proofing";
+import type { CurationState, SavedSearch } from "@/lib/projects";
+import type { RankingRequest } from "@/lib/ranking-pipeline";
+import { rejectModeLabels, type RejectMode } from "@/lib/reject-flags";
+import { buildConsensus, type ProjectReviews, type Reviewer } from "@/lib/reviews";
+import type { TimeRange } from "@/lib/timeline";
+import { useCurationHistory } from "@/lib/use-curation-history";
+import { useRankingWorker } from "@/lib/use-ranking-worker";
+import { useReviewChannel } from "@/lib/use-review-channel";
+import { useSemanticSearch } from "@/lib/use-semantic-search";
+import { decodeViewState, viewStateUrl, type ViewState } from "@/lib/view-state";
+import { defaultWeights } from "@/lib/weights";
+import type { XmpRating } from "@/lib/xmp";
+import { componentLabels, type ExplainedPhoto } from "@/lib/score-breakdown";
+import type { ClientProfile, ScoringWeights } from "@/lib/scoring";
 import {
-  buildPhotoRankings,
-  type ClientProfile,
-  type ScoringWeights,
-} from "@/lib/scoring";
-import { moodOptions, shotTypeOptions, locationOptions, tagOptions } from "@/lib/photo-data";
+  DEFAULT_MODEL_ID,
+  defaultModelState,
+  getScoringModel,
+  listScoringModels,
+  modelChoice,
+  parameterInfluence,
+  type ScoringModelState,
+} from "@/lib/scoring-models";
+import { moodOptions, shotTypeOptions, tagOptions } from "@/lib/photo-data";
+import { BriefPresetsPanel } from "./brief-presets-panel";
+import { CatalogGrid } from "./catalog-grid";
+import { CompareView, MAX_COMPARED_FRAMES } from "./compare-view";
+import { CoveragePlannerPanel } from "./coverage-planner-panel";
+import { CullingLoupe } from "./culling-loupe";
+import { DeliveryExportPanel } from "./delivery-export-panel";
+import { HistoryPanel } from "./history-panel";
+import { LearnedWeightsPanel } from "./learned-weights-panel";
+import { LightroomSyncPanel } from "./lightroom-sync-panel";
+import { PeoplePanel } from "./people-panel";
 import { PhotoCard } from "./photo-card";
+import { ProofingSharePanel } from "./proofing-share-panel";
+import { QuerySearch } from "./query-search";
+import { ReviewPanel } from "./review-panel";
+import { ScoreBreakdownView } from "./score-breakdown-view";
+import { ShortlistAnalyticsPanel } from "./shortlist-analytics-panel";
+import { TagInput } from "./tag-input";
+import { TimelinePanel } from "./timeline-panel";
 
 type DashboardClientProps = {
   photos: Photo[];
+  projectId: string;
+  initialCuration: CurationState | null;
+  initialGallery: ProofingGallery | null;
+  initialReviewer: Reviewer | null;
+  initialReviews: ProjectReviews;
+  semanticSearchAvailable: boolean;
 };
 
-const defaultProfile: ClientProfile = {
-  preferredMoods: ["Joyful", "Romantic"],
-  requiredShots: ["Portrait", "Candid"],
-  highlightTags: ["storytelling", "candids", "laughs"],
-  minimumFaces: 1,
-};
+type SaveStatus = "saved" | "saving" | "error";
 
-const defaultWeights: ScoringWeights = {
-  technical: 40,
-  storytelling: 35,
-  clientAlignment: 25,
-};
+const burstLimitOptions = [null, 1, 2, 3];
 
 const percentile = (value: number) => Math.round(value * 100);
 
-const weightLabels: Record<keyof ScoringWeights, string> = {
-  technical: "Technical excellence",
-  storytelling: "Storytelling & emotion",
-  clientAlignment: "Client alignment",
+const saveStatusLabels: Record<SaveStatus, string> = {
+  saved: "All changes saved",
+  saving: "Saving…",
+  error: "Save failed — retrying on next change",
 };
 
-export const DashboardClient = ({ photos }: DashboardClientProps) => {
-  const [weights, setWeights] = useState(defaultWeights);
-  const [profile, setProfile] = useState<ClientProfile>(defaultProfile);
-  const [activeShotTypes, setActiveShotTypes] = useState<string[]>([]);
-  const [activeMoods, setActiveMoods] = useState<string[]>([]);
-  const [activeLocations, setActiveLocations] = useState<string[]>([]);
-  const [tagQuery, setTagQuery] = useState("");
-  const [showSelectedOnly, setShowSelectedOnly] = useState(false);
-  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-
-  const normalizedWeights = useMemo(() => {
-    const total = weights.technical + weights.storytelling + weights.clientAlignment;
-    return {
-      technical: weights.technical / total,
-      storytelling: weights.storytelling / total,
-      clientAlignment: weights.clientAlignment / total,
-    };
-  }, [weights]);
+export const DashboardClient = ({
+  photos,
+  projectId,
+  initialCuration,
+  initialGallery,
+  initialReviewer,
+  initialReviews,
+  semanticSearchAvailable,
+}: DashboardClientProps) => {
+  const [weights, setWeights] = useState(initialCuration?.weights ?? defaultWeights);
+  const [profile, setProfile] = useState<ClientProfile>(initialCuration?.profile ?? defaultProfile);
+  const [activeShotTypes, setActiveShotTypes] = useState<string[]>(
+    initialCuration?.filters.activeShotTypes ?? [],
+  );
+  const [activeMoods, setActiveMoods] = useState<string[]>(
+    initialCuration?.filters.activeMoods ?? [],
+  );
+  const [activeLocations, setActiveLocations] = useState<string[]>(
+    initialCuration?.filters.activeLocations ?? [],
+  );
+  const [activePeople, setActivePeople] = useState<string[]>(
+    initialCuration?.filters.activePeople ?? [],
+  );
+  const [tagQuery, setTagQuery] = useState(initialCuration?.filters.tagQuery ?? "");
+  const [showSelectedOnly, setShowSelectedOnly] = useState(
+    initialCuration?.filters.showSelectedOnly ?? false,
+  );
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(
+    () => new Set(initialCuration?.selectedIds),
+  );
+  const [ratings, setRatings] = useState<Record<string, number>>(
+    () => initialCuration?.ratings ?? {},
+  );
+  const [tagBoosts, setTagBoosts] = useState<Record<string, number>>(
+    () => initialCuration?.tagBoosts ?? {},
+  );
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>(
+    () => initialCuration?.savedSearches ?? [],
+  );
+  const [peopleNames, setPeopleNames] = useState<Record<string, string>>(
+    initialCuration?.peopleNames ?? {},
+  );
+  const [peopleRules, setPeopleRules] = useState<PeopleRule[]>(
+    initialCuration?.peopleRules ?? [],
+  );
+  const [scoringModel, setScoringModel] = useState<ScoringModelState>(
+    initialCuration?.scoringModel ?? defaultModelState,
+  );
+  const [timeRange, setTimeRange] = useState<TimeRange | null>(null);
+  const [loupeIndex, setLoupeIndex] = useState<number | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("saved");
+  const [burstLimit, setBurstLimit] = useState<number | null>(initialCuration?.burstLimit ?? null);
+  const [rejectMode, setRejectMode] = useState<RejectMode>(initialCuration?.rejectMode ?? "off");
+  const [stackView, setStackView] = useState(false);
+  const [expandedBurstId, setExpandedBurstId] = useState<string | null>(null);
+  const [gallery, setGallery] = useState(initialGallery);
+  const clientResponses = gallery?.responses ?? {};
+  const [xmpRatings, setXmpRatings] = useState<Record<string, XmpRating>>({});
+  const review = useReviewChannel(projectId, initialReviewer, initialReviews);
+  const { castVote } = review;
+
+  const consensus = useMemo(() => buildConsensus(review.reviews.votes), [review.reviews.votes]);
+
+  const applyChanges = (changes: CurationChange[], action: AuditAction) => {
+    changes.forEach((change) => {
+      switch (change.type) {
+        case "shortlist":
+          setSelectedIds((prev) => applyShortlistChange(prev, change));
+          // Undoing a single pick also takes back this reviewer's vote on it.
+          if (action !== "do" && change.added.length + change.removed.length === 1) {
+            const [photoId] = [...change.added, ...change.removed];
+            void castVote({ photoId, pick: change.added.length > 0 ? "pick" : null });
+          }
+          break;
+        case "rating":
+          setRatings((prev) => withRating(prev, change.photoId, change.after));
+          if (action !== "do") void castVote({ photoId: change.photoId, rating: change.after });
+          break;
+        case "weights":
+          setWeights(change.after);
+          break;
+        case "profile":
+          setProfile(change.after);
+          break;
+        case "tag-boosts":
+          setTagBoosts(change.after);
+          break;
+        case "scoring-model":
+          setScoringModel(change.after);
+          break;
+      }
+    });
+  };
 
-  const rankedPhotos = useMemo(
-    () => buildPhotoRankings(photos, normalizedWeights, profile),
-    [photos, normalizedWeights, profile],
+  const { history, execute, undo, redo } = useCurationHistory(projectId, applyChanges);
+
+  const curation = useMemo<CurationState>(
+    () => ({
+      selectedIds: Array.from(selectedIds),
+      weights,
+      profile,
+      filters: {
+        activeShotTypes,
+        activeMoods,
+        activeLocations,
+        activePeople,
+        tagQuery,
+        showSelectedOnly,
+      },
+      ratings,
+      tagBoosts,
+      savedSearches,
+      peopleNames,
+      peopleRules,
+      scoringModel,
+      rejectMode,
+      burstLimit,
+    }),
+    [
+      selectedIds,
+      weights,
+      profile,
+      activeShotTypes,
+      activeMoods,
+      activeLocations,
+      activePeople,
+      tagQuery,
+      showSelectedOnly,
+      ratings,
+      tagBoosts,
+      savedSearches,
+      peopleNames,
+      peopleRules,
+      scoringModel,
+      rejectMode,
+      burstLimit,
+    ],
   );
 
-  const filtered = useMemo(() => {
-    const query = tagQuery.trim().toLowerCase();
-    return rankedPhotos.filter(({ photo }) => {
-      if (showSelectedOnly && !selectedIds.has(photo.id)) return false;
-      if (activeShotTypes.length > 0 && !activeShotTypes.includes(photo.shotType)) return false;
-      if (activeMoods.length > 0 && !activeMoods.includes(photo.mood)) return false;
-      if (activeLocations.length > 0 && !activeLocations.includes(photo.location)) return false;
-
-      if (query) {
-        const matchesTag = photo.tags.some((tag) => tag.toLowerCase().includes(query));
-        const matchesNotes = photo.clientNotes.some((note) =>
-          note.toLowerCase().includes(query),
-        );
-        if (!matchesTag && !matchesNotes && !photo.title.toLowerCase().includes(query)) {
-          return false;
-        }
+  const lastSavedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const body = JSON.stringify(curation);
+    if (lastSavedRef.current === null) {
+      lastSavedRef.current = body;
+      return;
+    }
+    if (body === lastSavedRef.current) return;
+
+    const timeout = window.setTimeout(async () => {
+      setSaveStatus("saving");
+      try {
+        const response = await fetch(`/api/projects/${projectId}/curation`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body,
+          keepalive: true,
+        });
+        if (!response.ok) throw new Error(`Saving curation failed with ${response.status}`);
+        lastSavedRef.current = body;
+        setSaveStatus("saved");
+      } catch {
+        setSaveStatus("error");
       }
+    }, 600);
+    return () => window.clearTimeout(timeout);
+  }, [curation, projectId]);
 
-      return true;
-    });
-  }, [
-    rankedPhotos,
-    activeShotTypes,
-    activeMoods,
-    activeLocations,
-    tagQuery,
-    showSelectedOnly,
-    selectedIds,
-  ]);
-
-  const topCandidates = filtered.slice(0, 12);
+  const lastUrlRef = useRef<string | null>(null);
 
-  const hero = topCandidates[0];
+  useEffect(() => {
+    const url = viewStateUrl(window.location.href, curation);
+    if (lastUrlRef.current === null) {
+      lastUrlRef.current = url;
+      window.history.replaceState(window.history.state, "", url);
+      return;
+    }
+    if (url === lastUrlRef.current) return;
+
+    const timeout = window.setTimeout(() => {
+      lastUrlRef.current = url;
+      window.history.pushState(window.history.state, "", url);
+    }, 400);
+    return () => window.clearTimeout(timeout);
+  }, [curation]);
+
+  useEffect(() => {
+    const applyView = ({ weights, profile, filters }: ViewState) => {
+      setWeights(weights);
+      setProfile(profile);
+      setActiveShotTypes(filters.activeShotTypes);
+      setActiveMoods(filters.activeMoods);
+      setActiveLocations(filters.activeLocations);
+      setActivePeople(filters.activePeople);
+      setTagQuery(filters.tagQuery);
+      setShowSelectedOnly(filters.showSelectedOnly);
+    };
+    const handlePopState = () => {
+      const view = decodeViewState(new URLSearchParams(window.location.search));
+      if (!view) return;
+      lastUrlRef.current = `${window.location.pathname}${window.location.search}`;
+      applyView(view);
+    };
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const locationOptions = useMemo(
+    () => Array.from(new Set(photos.map((photo) => photo.location))).sort(),
+    [photos],
+  );
+
+  const tagSuggestions = useMemo(
+    () => Array.from(new Set([...tagOptions, ...photos.flatMap((photo) => photo.tags)])).sort(),
+    [photos],
+  );
+
+  const activeModel = getScoringModel(scoringModel.modelId);
+
+  const activeModelChoice = useMemo(
+    () => modelChoice(scoringModel, weights),
+    [scoringModel, weights],
+  );
+
+  const influence = parameterInfluence(activeModel, activeModelChoice.parameters);
+
+  const parsedQuery = useMemo(() => parseQuery(tagQuery), [tagQuery]);
+  const semanticQuery = useMemo(
+    () => (parsedQuery.ok ? semanticQueryOf(parsedQuery.ast) : null),
+    [parsedQuery],
+  );
+  const semanticSearch = useSemanticSearch(projectId, semanticQuery, semanticSearchAvailable);
 
   const shortlist = useMemo(
     () => photos.filter((photo) => selectedIds.has(photo.id)),
     [photos, selectedIds],
   );
 
-  const toggleSelection = (id: string) => {
-    setSelectedIds((prev) => {
-      const next = new Set(prev);
-      if (next.has(id)) {
-        next.delete(id);
-      } else {
-        next.add(id);
-      }
-      return next;
+  const shortlistLook = useMemo(() => medianLook(shortlist), [shortlist]);
+
+  const queryContext = useMemo<QueryContext>(
+    () => ({
+      selectedIds,
+      ratings,
+      clientComments: Object.fromEntries(
+        Object.entries(gallery?.responses ?? {}).map(([id, response]) => [
+          id,
+          response.comments.map((comment) => comment.body),
+        ]),
+      ),
+      consensus: Object.fromEntries(
+        Object.entries(consensus).map(([id, entry]) => [id, entry.status]),
+      ),
+      semantic: semanticSearch.results,
+      shortlistLook,
+    }),
+    [selectedIds, ratings, gallery, consensus, semanticSearch.results, shortlistLook],
+  );
+
+  const rankingRequest = useMemo<RankingRequest>(
+    () => ({
+      model: activeModelChoice,
+      profile,
+      tagBoosts,
+      burstLimit,
+      rejectMode,
+      filters: curation.filters,
+      context: queryContext,
+      collections: savedSearches,
+      timeRange,
+    }),
+    [
+      activeModelChoice,
+      profile,
+      tagBoosts,
+      burstLimit,
+      rejectMode,
+      curation.filters,
+      queryContext,
+      savedSearches,
+      timeRange,
+    ],
+  );
+
+  const { rankedPhotos, filtered, collectionCounts, pipeline, isRanking } = useRankingWorker(
+    photos,
+    rankingRequest,
+  );
+  const { burstIndex } = pipeline;
+
+  const rankPhotos = useCallback(
+    (rankingWeights: ScoringWeights, rankingBoosts: Record<string, number>) =>
+      pipeline.rank(
+        { modelId: DEFAULT_MODEL_ID, parameters: rankingWeights },
+        profile,
+        rankingBoosts,
+        burstLimit,
+        rejectMode,
+      ),
+    [pipeline, profile, burstLimit, rejectMode],
+  );
+
+  const gridEntries = useMemo<StackedPhoto<ExplainedPhoto>[]>(() => {
+    if (!stackView) {
+      return filtered.map((entry) => ({ ...entry, burstId: entry.photo.id, burstSize: 1 }));
+    }
+    return stackBursts(filtered, burstIndex).flatMap((leader) => {
+      if (leader.burstId !== expandedBurstId) return [leader];
+      const members = filtered
+        .filter(
+          (entry) =>
+            entry.photo.id !== leader.photo.id &&
+            burstIndex.groupOf.get(entry.photo.id) === leader.burstId,
+        )
+        .map((entry) => ({ ...entry, burstId: leader.burstId, burstSize: 1 }));
+      return [leader, ...members];
     });
+  }, [filtered, stackView, burstIndex, expandedBurstId]);
+
+  const topCandidates = gridEntries.slice(0, 12);
+
+  const hero = topCandidates[0];
+  const heroMetrics = hero ? analyzedMetrics(hero.photo) : undefined;
+
+  const photosById = useMemo(() => new Map(photos.map((photo) => [photo.id, photo])), [photos]);
+
+  const people = useMemo(() => buildPeople(photos, peopleNames), [photos, peopleNames]);
+
+  const peopleChecks = useMemo(() => {
+    const labels = new Map(people.map((person) => [person.id, person.label]));
+    return checkPeopleRules(shortlist, peopleRules, (id) => labels.get(id) ?? "Unknown person");
+  }, [shortlist, peopleRules, people]);
+
+  const titleFor = (id: string) => photosById.get(id)?.title ?? id;
+
+  const replaceShortlist = (ids: Iterable<string>, label: string) =>
+    execute(label, [shortlistChange(selectedIds, ids)]);
+
+  const setSelected = (id: string, selected: boolean) => {
+    if (selectedIds.has(id) === selected) return;
+    execute(`${selected ? "Shortlisted" : "Removed"} ${titleFor(id)}`, [
+      { type: "shortlist", added: selected ? [id] : [], removed: selected ? [] : [id] },
+    ]);
   };
 
-  const adjustWeight = (key: keyof ScoringWeights, value: number) => {
-    setWeights((prev) => ({
-      ...prev,
-      [key]: value,
-    }));
+  const toggleSelection = (id: string) => {
+    void castVote({ photoId: id, pick: selectedIds.has(id) ? null : "pick" });
+    setSelected(id, !selectedIds.has(id));
   };
 
-  const toggleProfileField = (key: keyof ClientProfile, value: string) => {
-    setProfile((prev) => {
-      const current = prev[key];
-      if (!Array.isArray(current)) return prev;
-      const set = new Set(current);
-      if (set.has(value)) {
-        set.delete(value);
-      } else {
-        set.add(value);
-      }
-      return {
-        ...prev,
-        [key]: Array.from(set),
-      };
-    });
+  const reviewFrame = (id: string, selected: boolean) => {
+    void castVote({ photoId: id, pick: selected ? "pick" : "reject" });
+    setSelected(id, selected);
+  };
+
+  const ratePhoto = (id: string, rating: number | null) => {
+    void castVote({ photoId: id, rating });
+    const label =
+      rating === null ? `Cleared rating of ${titleFor(id)}` : `Rated ${titleFor(id)} ${rating}★`;
+    execute(label, [{ type: "rating", photoId: id, before: ratings[id] ?? null, after: rating }]);
+  };
+
+  const openLoupe = (id?: string) => {
+    if (filtered.length === 0) return;
+    setLoupeIndex(Math.max(0, filtered.findIndex((entry) => entry.photo.id === id)));
+  };
+
+  const compareEntries = useMemo(() => {
+    const byId = new Map(rankedPhotos.map((entry) => [entry.photo.id, entry]));
+    return compareIds
+      .map((id) => byId.get(id))
+      .filter((entry): entry is ExplainedPhoto => entry !== undefined);
+  }, [compareIds, rankedPhotos]);
+
+  const toggleCompare = (id: string) =>
+    setCompareIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((item) => item !== id)
+        : [...prev, id].slice(-MAX_COMPARED_FRAMES),
+    );
+
+  const removeFromCompare = (id: string) => {
+    const remaining = compareIds.filter((item) => item !== id);
+    setCompareIds(remaining);
+    if (remaining.length < 2) setIsComparing(false);
   };
 
-  const clearSelections = () => setSelectedIds(new Set());
+  const keepComparedFrame = (id: string) => {
+    replaceShortlist(
+      [...Array.from(selectedIds).filter((item) => !compareIds.includes(item)), id],
+      `Kept ${titleFor(id)} from compare`,
+    );
+    setCompareIds([]);
+    setIsComparing(false);
+  };
+
+  const adjustWeight = (key: keyof ScoringWeights, value: number) =>
+    execute(
+      `Set ${componentLabels[key]} to ${value}%`,
+      [{ type: "weights", before: weights, after: { ...weights, [key]: value } }],
+      `weights:${key}`,
+    );
+
+  const adjustParameter = (key: string, value: number) => {
+    if (activeModel.id === DEFAULT_MODEL_ID) {
+      adjustWeight(key as keyof ScoringWeights, value);
+      return;
+    }
+    const parameter = activeModel.parameters.find((item) => item.key === key);
+    execute(
+      `Set ${parameter?.label ?? key} to ${value}`,
+      [
+        {
+          type: "scoring-model",
+          before: scoringModel,
+          after: {
+            ...scoringModel,
+            parameters: {
+              ...scoringModel.parameters,
+              [activeModel.id]: { ...activeModelChoice.parameters, [key]: value },
+            },
+          },
+        },
+      ],
+      `model:${activeModel.id}:${key}`,
+    );
+  };
+
+  /** Presets and learned weights tune the default model; applying them switches back to it. */
+  const toDefaultModel = (): CurationChange[] =>
+    scoringModel.modelId === DEFAULT_MODEL_ID
+      ? []
+      : [
+          {
+            type: "scoring-model",
+            before: scoringModel,
+            after: { ...scoringModel, modelId: DEFAULT_MODEL_ID },
+          },
+        ];
+
+  const selectModel = (modelId: string) =>
+    execute(`Switched to the ${getScoringModel(modelId).name} model`, [
+      { type: "scoring-model", before: scoringModel, after: { ...scoringModel, modelId } },
+    ]);
+
+  const changeProfile = (label: string, next: ClientProfile, mergeKey?: string) =>
+    execute(label, [{ type: "profile", before: profile, after: next }], mergeKey);
+
+  const toggleProfileField = (key: "preferredMoods" | "requiredShots", value: string) => {
+    const current = profile[key];
+    const isActive = current.includes(value);
+    changeProfile(
+      `${isActive ? "Removed" : "Added"} ${value} ${key === "preferredMoods" ? "mood" : "shot"}`,
+      {
+        ...profile,
+        [key]: isActive ? current.filter((item) => item !== value) : [...current, value],
+      },
+    );
+  };
+
+  const clearSelections = () =>
+    replaceShortlist([], `Cleared shortlist (${selectedIds.size} frames)`);
+
+  const addToShortlist = (ids: string[], source: string) =>
+    replaceShortlist([...Array.from(selectedIds), ...ids], `Shortlisted ${ids.length} ${source}`);
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100">
@@ -164,37 +577,133 @@ export const DashboardClient = ({ photos }: DashboardClientProps) => {
                 {selectedIds.size.toLocaleString()}
               </p>
             </div>
+            <p
+              className={`text-xs font-medium ${
+                saveStatus === "error" ? "text-rose-300" : "text-slate-400"
+              }`}
+            >
+              {saveStatusLabels[saveStatus]}
+            </p>
           </div>
         </div>
       </header>
       <main className="mx-auto grid max-w-7xl gap-6 px-6 py-8 lg:grid-cols-[280px_1fr]">
         <section className="flex flex-col gap-6">
+          <BriefPresetsPanel
+            profile={profile}
+            weights={weights}
+            onApply={(preset) =>
+              execute(`Applied preset ${preset.name}`, [
+                { type: "weights", before: weights, after: preset.weights },
+                { type: "profile", before: profile, after: preset.profile },
+                ...toDefaultModel(),
+              ])
+            }
+          />
           <div className="rounded-3xl border border-white/10 bg-slate-950/80 p-6 shadow-lg shadow-black/20">
             <h2 className="text-lg font-semibold text-white">Client Priorities</h2>
             <p className="mt-1 text-sm text-slate-400">
               Tune how the AI ranks images so the final gallery reflects the brief.
             </p>
             <div className="mt-6 space-y-6">
-              {(Object.keys(weights) as Array<keyof ScoringWeights>).map((key) => (
-                <div key={key}>
+              <div>
+                <label
+                  htmlFor="scoring-model"
+                  className="text-xs font-semibold uppercase tracking-wide text-slate-500"
+                >
+                  Scoring model
+                </label>
+                <select
+                  id="scoring-model"
+                  value={activeModel.id}
+                  onChange={(event) => selectModel(event.target.value)}
+                  className="mt-2 w-full rounded-xl border border-white/10 bg-slate-900 px-3 py-2 text-sm text-white"
+                >
+                  {listScoringModels().map((model) => (
+                    <option key={model.id} value={model.id}>
+                      {model.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-2 text-xs text-slate-500">{activeModel.description}</p>
+              </div>
+              {activeModel.parameters.map((parameter) => (
+                <div key={parameter.key}>
                   <div className="flex items-center justify-between">
-                    <p className="text-sm font-semibold text-white/90">{weightLabels[key]}</p>
-                    <span className="text-sm text-slate-400">{weights[key]}%</span>
+                    <p className="text-sm font-semibold text-white/90" title={parameter.description}>
+                      {parameter.label}
+                    </p>
+                    <span className="text-sm text-slate-400">
+                      {activeModelChoice.parameters[parameter.key]}%
+                    </span>
                   </div>
                   <input
                     type="range"
-                    min={15}
-                    max={70}
-                    step={1}
-                    value={weights[key]}
-                    onChange={(event) => adjustWeight(key, Number(event.target.value))}
+                    min={parameter.min}
+                    max={parameter.max}
+                    step={parameter.step}
+                    value={activeModelChoice.parameters[parameter.key]}
+                    onChange={(event) => adjustParameter(parameter.key, Number(event.target.value))}
+                    aria-label={parameter.label}
                     className="mt-2 w-full accent-blue-500"
                   />
                   <p className="mt-1 text-xs text-slate-500">
-                    Influence: {(normalizedWeights[key] * 100).toFixed(0)}%
+                    {parameter.kind === "weight"
+                      ? `Influence: ${(influence[parameter.key] * 100).toFixed(0)}%`
+                      : parameter.description}
                   </p>
                 </div>
               ))}
+              <div>
+                <p className="text-sm font-semibold text-white/90">Frames per burst</p>
+                <p className="mt-1 text-xs text-slate-500">
+                  Penalize near-duplicates beyond the best frames of each moment.
+                </p>
+                <div className="mt-3 flex gap-2">
+                  {burstLimitOptions.map((value) => {
+                    const active = burstLimit === value;
+                    return (
+                      <button
+                        key={value ?? "off"}
+                        type="button"
+                        onClick={() => setBurstLimit(value)}
+                        className={`flex-1 rounded-xl border px-3 py-2 text-xs font-semibold uppercase tracking-wide transition ${
+                          active
+                            ? "border-blue-400/70 bg-blue-500/20 text-blue-100"
+                            : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
+                        }`}
+                      >
+                        {value === null ? "No limit" : value}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-semibold text-white/90">Flagged frames</p>
+                <p className="mt-1 text-xs text-slate-500">
+                  Closed eyes or a blurred subject: badge, sink or hide those frames.
+                </p>
+                <div className="mt-3 flex gap-2">
+                  {(Object.keys(rejectModeLabels) as RejectMode[]).map((mode) => {
+                    const active = rejectMode === mode;
+                    return (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setRejectMode(mode)}
+                        className={`flex-1 rounded-xl border px-3 py-2 text-xs font-semibold uppercase tracking-wide transition ${
+                          active
+                            ? "border-rose-400/70 bg-rose-500/20 text-rose-100"
+                            : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
+                        }`}
+                      >
+                        {rejectModeLabels[mode]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
             </div>
           </div>
 
@@ -256,58 +765,56 @@ export const DashboardClient = ({ photos }: DashboardClientProps) => {
                 <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
                   Highlight Tags
                 </p>
-                <div className="mt-3 flex flex-wrap gap-2">
-                  {tagOptions.slice(0, 12).map((tag) => {
-                    const active = profile.highlightTags.includes(tag);
-                    return (
-                      <button
-                        key={tag}
-                        type="button"
-                        onClick={() => toggleProfileField("highlightTags", tag)}
-                        className={`rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide transition ${
-                          active
-                            ? "border-emerald-400/70 bg-emerald-500/20 text-emerald-100"
-                            : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
-                        }`}
-                      >
-                        #{tag}
-                      </button>
-                    );
-                  })}
+                <div className="mt-3">
+                  <TagInput
+                    tags={profile.highlightTags}
+                    suggestions={tagSuggestions}
+                    onChange={(highlightTags) =>
+                      changeProfile("Updated highlight tags", { ...profile, highlightTags })
+                    }
+                    placeholder="Type a tag, e.g. first-look"
+                  />
                 </div>
               </div>
               <div>
                 <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
                   Minimum Faces
                 </p>
-                <div className="mt-3 flex gap-2">
-                  {[0, 1, 2, 4].map((value) => {
-                    const active = profile.minimumFaces === value;
-                    return (
-                      <button
-                        key={value}
-                        type="button"
-                        onClick={() =>
-                          setProfile((prev) => ({
-                            ...prev,
-                            minimumFaces: value,
-                          }))
-                        }
-                        className={`flex-1 rounded-xl border px-3 py-2 text-xs font-semibold uppercase tracking-wide transition ${
-                          active
-                            ? "border-emerald-400/70 bg-emerald-500/15 text-emerald-100"
-                            : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
-                        }`}
-                      >
-                        {value === 0 ? "No minimum" : `${value}+ faces`}
-                      </button>
-                    );
-                  })}
+                <div className="mt-3 flex items-center gap-3">
+                  <input
+                    type="range"
+                    min={0}
+                    max={10}
+                    step={1}
+                    value={profile.minimumFaces}
+                    onChange={(event) =>
+                      changeProfile(
+                        `Set minimum faces to ${event.target.value}`,
+                        { ...profile, minimumFaces: Number(event.target.value) },
+                        "profile:minimumFaces",
+                      )
+                    }
+                    aria-label="Minimum faces"
+                    className="w-full accent-emerald-500"
+                  />
+                  <span className="w-24 shrink-0 text-right text-xs font-semibold uppercase tracking-wide text-slate-300">
+                    {profile.minimumFaces === 0 ? "No minimum" : `${profile.minimumFaces}+ faces`}
+                  </span>
                 </div>
               </div>
             </div>
           </div>
 
+          <PeoplePanel
+            people={people}
+            rules={peopleRules}
+            checks={peopleChecks}
+            onRename={(personId, name) =>
+              setPeopleNames((prev) => ({ ...prev, [personId]: name }))
+            }
+            onRulesChange={setPeopleRules}
+          />
+
           <div className="rounded-3xl border border-white/10 bg-slate-950/80 p-6 shadow-lg shadow-black/20">
             <h2 className="text-lg font-semibold text-white">Exploration Filters</h2>
             <p className="mt-1 text-sm text-slate-400">
@@ -402,17 +909,62 @@ export const DashboardClient = ({ photos }: DashboardClientProps) => {
                   })}
                 </div>
               </div>
-              <div>
-                <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                  Tag or note search
-                </label>
-                <input
-                  value={tagQuery}
-                  onChange={(event) => setTagQuery(event.target.value)}
-                  placeholder="Search: #storytelling, backlit, laughter..."
-                  className="mt-2 w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white outline-none transition focus:border-blue-400/70 focus:bg-white/10"
-                />
-              </div>
+              {people.length > 0 && (
+                <div>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    People
+                  </p>
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {people.map((person) => {
+                      const active = activePeople.includes(person.id);
+                      return (
+                        <button
+                          key={person.id}
+                          type="button"
+                          onClick={() =>
+                            setActivePeople((prev) =>
+                              prev.includes(person.id)
+                                ? prev.filter((item) => item !== person.id)
+                                : [...prev, person.id],
+                            )
+                          }
+                          className={`rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide transition ${
+                            active
+                              ? "border-violet-400/70 bg-violet-500/20 text-violet-100"
+                              : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
+                          }`}
+                        >
+                          {person.label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  {activePeople.length > 1 && (
+                    <p className="mt-2 text-xs text-slate-500">
+                      Showing frames with everyone selected.
+                    </p>
+                  )}
+                </div>
+              )}
+              <QuerySearch
+                query={tagQuery}
+                error={parsedQuery.ok ? null : parsedQuery.error}
+                savedSearches={savedSearches}
+                collectionCounts={collectionCounts}
+                onQueryChange={setTagQuery}
+                semanticKind={semanticQuery?.kind ?? null}
+                semanticStatus={semanticSearch.status}
+                semanticError={semanticSearch.error}
+                onSave={(name) =>
+                  setSavedSearches((prev) => [
+                    ...prev,
+                    { id: Date.now().toString(36), name, query: tagQuery.trim() },
+                  ])
+                }
+                onDelete={(id) =>
+                  setSavedSearches((prev) => prev.filter((search) => search.id !== id))
+                }
+              />
               <div className="flex items-center justify-between rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm">
                 <label className="flex items-center gap-2">
                   <input
@@ -433,6 +985,8 @@ export const DashboardClient = ({ photos }: DashboardClientProps) => {
               </div>
             </div>
           </div>
+
+          <HistoryPanel projectId={projectId} history={history} onUndo={undo} onRedo={redo} />
         </section>
 
         <section className="space-y-6">
@@ -475,21 +1029,17 @@ export const DashboardClient = ({ photos }: DashboardClientProps) => {
                     <p className="text-xs font-semibold uppercase tracking-[0.3rem] text-slate-400">
                       Why it stands out
                     </p>
-                    <ul className="mt-4 space-y-3 text-sm text-slate-200">
-                      <li>
-                        <span className="font-semibold text-white">Client alignment:</span>{" "}
-                        {percentile(hero.photo.metrics.clientRelevance)} percentile within the shoot.
-                      </li>
-                      <li>
-                        <span className="font-semibold text-white">Emotion capture:</span>{" "}
-                        {percentile(hero.photo.metrics.emotion)} percentile storytelling warmth.
-                      </li>
-                      <li>
-                        <span className="font-semibold text-white">Technical delivery:</span>{" "}
-                        {percentile(hero.photo.metrics.sharpness)} percentile sharpness with balanced
-                        exposure.
-                      </li>
-                    </ul>
+                    <div className="mt-4">
+                      <ScoreBreakdownView breakdown={hero.breakdown} tone="dark" />
+                    </div>
+                    {heroMetrics?.exposure !== undefined && (
+                      <p className="mt-3 text-xs text-slate-400">
+                        Technical excellence blends, as measured from pixels,{" "}
+                        {percentile(heroMetrics.sharpness)}% sharpness,{" "}
+                        {percentile(heroMetrics.exposure)}% exposure and{" "}
+                        {percentile(heroMetrics.noise ?? 0)}% noise.
+                      </p>
+                    )}
                   </div>
                   <div className="grid grid-cols-2 gap-3 text-xs">
                     <div className="rounded-2xl border border-white/10 bg-slate-900/70 px-4 py-3">
@@ -539,11 +1089,39 @@ export const DashboardClient = ({ photos }: DashboardClientProps) => {
                       ))}
                     </div>
                   </div>
+                  {clientResponses[hero.photo.id] && (
+                    <div>
+                      <p className="text-xs font-semibold uppercase tracking-[0.3rem] text-slate-400">
+                        Client feedback
+                      </p>
+                      <p className="mt-3 text-sm text-slate-200">
+                        {clientResponses[hero.photo.id].verdict === "heart"
+                          ? "♥ Loved by the client"
+                          : clientResponses[hero.photo.id].verdict === "reject"
+                            ? "Passed on by the client"
+                            : "No verdict yet"}
+                      </p>
+                      <ul className="mt-2 space-y-2 text-xs text-slate-300">
+                        {clientResponses[hero.photo.id].comments.map((comment) => (
+                          <li key={comment.id} className="rounded-2xl bg-white/5 px-3 py-2">
+                            “{comment.body}”
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
           )}
 
+          <TimelinePanel
+            photos={photos}
+            selectedIds={selectedIds}
+            range={timeRange}
+            onRangeChange={setTimeRange}
+          />
+
           <div className="rounded-[2.5rem] border border-white/10 bg-slate-950/80 p-6">
             <div className="flex flex-wrap items-center justify-between gap-4">
               <div>
@@ -555,6 +1133,11 @@ export const DashboardClient = ({ photos }: DashboardClientProps) => {
                 </h2>
               </div>
               <div className="flex flex-wrap gap-3 text-xs text-slate-300">
+                {isRanking && (
+                  <span className="rounded-full border border-blue-400/40 bg-blue-500/10 px-3 py-2 text-blue-200">
+                    Re-ranking…
+                  </span>
+                )}
                 <span className="rounded-full border border-white/10 bg-white/5 px-3 py-2">
                   Coverage: {filtered.length.toLocaleString()} frames ·{" "}
                   {((filtered.length / photos.length) * 100).toFixed(0)}% of catalog
@@ -562,21 +1145,119 @@ export const DashboardClient = ({ photos }: DashboardClientProps) => {
                 <span className="rounded-full border border-white/10 bg-white/5 px-3 py-2">
                   Hero confidence: {hero ? (hero.score * 100).toFixed(0) : 0}%
                 </span>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setStackView((prev) => !prev);
+                    setExpandedBurstId(null);
+                  }}
+                  className={`rounded-full border px-3 py-2 font-semibold uppercase tracking-wide transition ${
+                    stackView
+                      ? "border-amber-400/70 bg-amber-500/20 text-amber-100"
+                      : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
+                  }`}
+                >
+                  {stackView ? `Stacked · ${burstIndex.groups.length} bursts` : "Stack bursts"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => openLoupe()}
+                  disabled={filtered.length === 0}
+                  className="rounded-full border border-blue-400/70 bg-blue-500/20 px-3 py-2 font-semibold uppercase tracking-wide text-blue-100 transition hover:bg-blue-500/30 disabled:opacity-40"
+                >
+                  Cull in loupe
+                </button>
               </div>
             </div>
             <div className="mt-6 grid gap-4 md:grid-cols-2 xl:grid-cols-3">
-              {topCandidates.map(({ photo, score }) => (
+              {topCandidates.map(({ photo, score, breakdown, burstId, burstSize }) => (
                 <PhotoCard
                   key={photo.id}
                   photo={photo}
                   score={score}
+                  breakdown={breakdown}
                   isSelected={selectedIds.has(photo.id)}
                   onToggle={toggleSelection}
+                  clientResponse={clientResponses[photo.id]}
+                  xmpRating={xmpRatings[photo.id]}
+                  rating={ratings[photo.id]}
+                  onOpen={() => openLoupe(photo.id)}
+                  isCompared={compareIds.includes(photo.id)}
+                  onToggleCompare={() => toggleCompare(photo.id)}
+                  burstSize={burstSize}
+                  isStackExpanded={expandedBurstId === burstId && burstSize > 1}
+                  onToggleStack={
+                    stackView
+                      ? () => setExpandedBurstId((prev) => (prev === burstId ? null : burstId))
+                      : undefined
+                  }
+                  consensus={consensus[photo.id]}
+                  onFindSimilar={
+                    semanticSearchAvailable ? () => setTagQuery(`like:${photo.id}`) : undefined
+                  }
                 />
               ))}
             </div>
           </div>
 
+          <CatalogGrid
+            entries={filtered}
+            selectedIds={selectedIds}
+            onToggle={toggleSelection}
+            onOpen={openLoupe}
+          />
+
+          <LearnedWeightsPanel
+            weights={weights}
+            tagBoosts={tagBoosts}
+            rankedPhotos={rankedPhotos}
+            rank={rankPhotos}
+            onApply={(learnedWeights, learnedBoosts) =>
+              execute("Applied learned weights", [
+                { type: "weights", before: weights, after: learnedWeights },
+                { type: "tag-boosts", before: tagBoosts, after: learnedBoosts },
+                ...toDefaultModel(),
+              ])
+            }
+          />
+
+          <CoveragePlannerPanel
+            rankings={rankedPhotos}
+            shortlist={shortlist}
+            requiredShots={profile.requiredShots}
+            locations={locationOptions}
+            onApplyPlan={(ids) => replaceShortlist(ids, "Applied coverage plan")}
+          />
+
+          <ShortlistAnalyticsPanel
+            shortlist={shortlist}
+            catalog={photos}
+            profile={profile}
+            onMatchLook={shortlistLook ? () => setTagQuery("is:on-look") : undefined}
+            extraWarnings={peopleChecks
+              .filter((check) => !check.satisfied)
+              .map((check) => ({
+                id: `people-${check.rule.id}`,
+                severity: "error" as const,
+                message: check.message,
+              }))}
+          />
+
+          <ReviewPanel
+            photos={photos}
+            reviewer={review.reviewer}
+            reviewers={review.reviews.reviewers}
+            votes={review.reviews.votes}
+            consensus={consensus}
+            status={review.status}
+            error={review.error}
+            onSignIn={(name, role) => void review.signIn(name, role)}
+            onSignOut={() => void review.signOut()}
+            onOpen={openLoupe}
+            onShowConflicts={() => setTagQuery("is:conflict")}
+            onShortlistAgreed={(ids) => addToShortlist(ids, "agreed picks")}
+          />
+
           <div className="rounded-[2.5rem] border border-white/10 bg-slate-950/80 p-6">
             <div className="flex flex-wrap items-center justify-between gap-3">
               <div>
@@ -605,6 +1286,24 @@ export const DashboardClient = ({ photos }: DashboardClientProps) => {
                 </span>
               </div>
             </div>
+            <ProofingSharePanel
+              projectId={projectId}
+              selectedIds={selectedIds}
+              gallery={gallery}
+              onGalleryChange={setGallery}
+            />
+            <DeliveryExportPanel
+              projectId={projectId}
+              shortlistSize={selectedIds.size}
+              isSaving={saveStatus === "saving"}
+            />
+            <LightroomSyncPanel
+              projectId={projectId}
+              isSaving={saveStatus === "saving"}
+              ratings={xmpRatings}
+              onRatingsLoaded={setXmpRatings}
+              onShortlistPicks={(ids) => addToShortlist(ids, "Lightroom picks")}
+            />
             {shortlist.length === 0 ? (
               <p className="mt-6 rounded-3xl border border-dashed border-white/20 bg-white/5 px-6 py-12 text-center text-sm text-slate-400">
                 Select frames from the shortlist to prep a delivery-ready gallery for your client.
@@ -619,8 +1318,13 @@ export const DashboardClient = ({ photos }: DashboardClientProps) => {
                       key={`shortlist-${photo.id}`}
                       photo={photo}
                       score={score}
+                      breakdown={entry?.breakdown}
                       isSelected
                       onToggle={toggleSelection}
+                      clientResponse={clientResponses[photo.id]}
+                      xmpRating={xmpRatings[photo.id]}
+                      rating={ratings[photo.id]}
+                      consensus={consensus[photo.id]}
                     />
                   );
                 })}
@@ -634,6 +1338,50 @@ export const DashboardClient = ({ photos }: DashboardClientProps) => {
           </div>
         </section>
       </main>
+      {compareIds.length > 0 && !isComparing && (
+        <div className="fixed inset-x-0 bottom-6 z-40 flex justify-center px-6">
+          <div className="flex items-center gap-4 rounded-full border border-white/10 bg-slate-900/95 px-5 py-3 text-sm shadow-xl shadow-black/40">
+            <span className="text-slate-300">
+              {compareIds.length} of {MAX_COMPARED_FRAMES} frames picked for compare
+            </span>
+            <button
+              type="button"
+              onClick={() => setIsComparing(true)}
+              disabled={compareIds.length < 2}
+              className="rounded-full bg-blue-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-blue-400 disabled:opacity-40"
+            >
+              Compare side by side
+            </button>
+            <button
+              type="button"
+              onClick={() => setCompareIds([])}
+              className="text-xs font-semibold uppercase tracking-wide text-slate-400 hover:text-slate-200"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+      {isComparing && (
+        <CompareView
+          entries={compareEntries}
+          selectedIds={selectedIds}
+          onKeep={keepComparedFrame}
+          onRemove={removeFromCompare}
+          onClose={() => setIsComparing(false)}
+        />
+      )}
+      {loupeIndex !== null && (
+        <CullingLoupe
+          entries={filtered}
+          initialIndex={loupeIndex}
+          selectedIds={selectedIds}
+          ratings={ratings}
+          onSetSelected={reviewFrame}
+          onRate={ratePhoto}
+          onClose={() => setLoupeIndex(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import {
+  defaultDeliveryOptions,
+  deliveryQuery,
+  namingTokens,
+  webEdgeOptions,
+  type DeliveryOptions,
+} from "@/lib/delivery";
+
+type DeliveryExportPanelProps = {
+  projectId: string;
+  shortlistSize: number;
+  isSaving: boolean;
+};
+
+export const DeliveryExportPanel = ({
+  projectId,
+  shortlistSize,
+  isSaving,
+}: DeliveryExportPanelProps) => {
+  const [options, setOptions] = useState<DeliveryOptions>(defaultDeliveryOptions);
+  const disabled = shortlistSize === 0 || isSaving;
+  const href = `/api/projects/${projectId}/export?${deliveryQuery(options)}`;
+
+  return (
+    <div className="mt-4 rounded-3xl border border-white/10 bg-white/5 p-5 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="font-semibold text-white">Delivery package</p>
+          <p className="text-xs text-slate-400">
+            ZIP of {shortlistSize} frames with web copies and a JSON/CSV manifest.
+          </p>
+        </div>
+        <a
+          href={disabled ? undefined : href}
+          aria-disabled={disabled}
+          className={`rounded-full px-3 py-2 text-xs font-semibold uppercase tracking-wide transition ${
+            disabled
+              ? "pointer-events-none bg-white/10 text-slate-500"
+              : "bg-white/90 text-slate-900 hover:bg-white"
+          }`}
+        >
+          {isSaving ? "Saving shortlist…" : "Download ZIP"}
+        </a>
+      </div>
+      <div className="mt-4 grid gap-4 md:grid-cols-2">
+        <div>
+          <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            File names
+          </label>
+          <input
+            value={options.naming}
+            onChange={(event) => setOptions((prev) => ({ ...prev, naming: event.target.value }))}
+            className="mt-2 w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-sm text-white outline-none transition focus:border-blue-400/70 focus:bg-white/10"
+          />
+          <div className="mt-2 flex flex-wrap gap-1">
+            {namingTokens.map((token) => (
+              <button
+                key={token}
+                type="button"
+                onClick={() => setOptions((prev) => ({ ...prev, naming: `${prev.naming}${token}` }))}
+                className="rounded-full border border-white/10 bg-white/5 px-2 py-0.5 text-[0.65rem] text-slate-300 hover:border-white/30"
+              >
+                {token}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-3">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Web copies
+            </p>
+            <div className="mt-2 flex gap-2">
+              {webEdgeOptions.map((edge) => {
+                const active = options.webEdge === edge;
+                return (
+                  <button
+                    key={edge ?? "none"}
+                    type="button"
+                    onClick={() => setOptions((prev) => ({ ...prev, webEdge: edge }))}
+                    className={`flex-1 rounded-xl border px-2 py-2 text-xs font-semibold uppercase tracking-wide transition ${
+                      active
+                        ? "border-blue-400/70 bg-blue-500/20 text-blue-100"
+                        : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
+                    }`}
+                  >
+                    {edge === null ? "None" : `${edge}px`}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-xs font-semibold text-white/90">
+            <input
+              type="checkbox"
+              checked={options.includeOriginals}
+              onChange={(event) =>
+                setOptions((prev) => ({ ...prev, includeOriginals: event.target.checked }))
+              }
+              className="h-4 w-4 rounded border border-white/30 bg-slate-900 accent-emerald-400"
+            />
+            Include full-resolution originals
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import {
+  auditActionLabels,
+  type AuditEntry,
+  type CurationHistory,
+} from "@/lib/curation-history";
+
+type HistoryPanelProps = {
+  projectId: string;
+  history: CurationHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+};
+
+const VISIBLE_STEPS = 10;
+const VISIBLE_AUDIT_ENTRIES = 25;
+
+const formatTime = (isoDate: string) =>
+  new Date(isoDate).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+export const HistoryPanel = ({ projectId, history, onUndo, onRedo }: HistoryPanelProps) => {
+  const [auditLog, setAuditLog] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { past, future } = history;
+  const lastDone = past[past.length - 1];
+  const nextRedo = future[0];
+
+  const loadAuditLog = async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/audit`);
+      const body = (await response.json()) as { entries?: AuditEntry[]; error?: string };
+      if (!response.ok) throw new Error(body.error ?? `Request failed with ${response.status}`);
+      setAuditLog(body.entries ?? []);
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Loading the audit log failed");
+    }
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-950/80 p-6 shadow-lg shadow-black/20">
+      <h2 className="text-lg font-semibold text-white">History</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Undo with Ctrl+Z, redo with Ctrl+Shift+Z. Every change is kept in the audit log.
+      </p>
+      <div className="mt-4 grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={!lastDone}
+          title={lastDone ? `Undo: ${lastDone.label}` : undefined}
+          className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-white/30 disabled:opacity-40"
+        >
+          ↶ Undo
+        </button>
+        <button
+          type="button"
+          onClick={onRedo}
+          disabled={!nextRedo}
+          title={nextRedo ? `Redo: ${nextRedo.label}` : undefined}
+          className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-white/30 disabled:opacity-40"
+        >
+          Redo ↷
+        </button>
+      </div>
+      {past.length === 0 && future.length === 0 ? (
+        <p className="mt-4 text-xs text-slate-500">No changes this session yet.</p>
+      ) : (
+        <ol className="mt-4 space-y-1 text-xs">
+          {future
+            .slice(0, VISIBLE_STEPS)
+            .reverse()
+            .map((command) => (
+              <li key={command.id} className="flex justify-between gap-3 text-slate-600 line-through">
+                <span className="truncate">{command.label}</span>
+                <span className="shrink-0">{formatTime(command.at)}</span>
+              </li>
+            ))}
+          {past
+            .slice(-VISIBLE_STEPS)
+            .reverse()
+            .map((command, index) => (
+              <li
+                key={command.id}
+                className={`flex justify-between gap-3 ${
+                  index === 0 ? "font-semibold text-white" : "text-slate-400"
+                }`}
+              >
+                <span className="truncate">{command.label}</span>
+                <span className="shrink-0 text-slate-500">{formatTime(command.at)}</span>
+              </li>
+            ))}
+        </ol>
+      )}
+
+      <details
+        className="mt-5 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-xs"
+        onToggle={(event) => {
+          if (event.currentTarget.open) void loadAuditLog();
+        }}
+      >
+        <summary className="cursor-pointer font-semibold uppercase tracking-wide text-slate-400">
+          Audit log
+        </summary>
+        <div className="mt-3 flex gap-3">
+          <a
+            href={`/api/projects/${projectId}/audit?format=csv`}
+            className="font-semibold uppercase tracking-wide text-blue-300 hover:text-blue-200"
+          >
+            Export CSV
+          </a>
+          <a
+            href={`/api/projects/${projectId}/audit?format=json`}
+            className="font-semibold uppercase tracking-wide text-blue-300 hover:text-blue-200"
+          >
+            Export JSON
+          </a>
+        </div>
+        {error && <p className="mt-3 text-rose-300">{error}</p>}
+        {auditLog && auditLog.length === 0 && (
+          <p className="mt-3 text-slate-500">Nothing recorded yet.</p>
+        )}
+        {auditLog && auditLog.length > 0 && (
+          <ul className="mt-3 space-y-2">
+            {auditLog
+              .slice(-VISIBLE_AUDIT_ENTRIES)
+              .reverse()
+              .map((entry) => (
+                <li key={entry.id} className="text-slate-300">
+                  <span className="text-slate-500">
+                    {new Date(entry.at).toLocaleString(undefined, {
+                      month: "short",
+                      day: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </span>{" "}
+                  <span className="font-semibold text-white">
+                    {entry.actor ?? "Signed-out user"}
+                  </span>{" "}
+                  {entry.action === "do"
+                    ? entry.label
+                    : `${auditActionLabels[entry.action].toLowerCase()} “${entry.label}”`}
+                </li>
+              ))}
+          </ul>
+        )}
+      </details>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { componentLabels, type ExplainedPhoto } from "@/lib/score-breakdown";
+import type { ScoringWeights } from "@/lib/scoring";
+import type { LearnedWeights } from "@/lib/weight-learning";
+
+type LearnedWeightsPanelProps = {
+  weights: ScoringWeights;
+  tagBoosts: Record<string, number>;
+  rankedPhotos: ExplainedPhoto[];
+  rank: (weights: ScoringWeights, tagBoosts: Record<string, number>) => ExplainedPhoto[];
+  onApply: (weights: ScoringWeights, tagBoosts: Record<string, number>) => void;
+};
+
+const PREVIEW_SIZE = 12;
+
+const movementLabel = (before: number, after: number) => {
+  if (before === -1) return { text: "new", className: "text-emerald-300" };
+  if (before === after) return { text: "–", className: "text-slate-500" };
+  return before > after
+    ? { text: `↑${before - after}`, className: "text-emerald-300" }
+    : { text: `↓${after - before}`, className: "text-rose-300" };
+};
+
+const formatBoost = (value: number) =>
+  `${value > 0 ? "+" : "−"}${Math.abs(value * 100).toFixed(1)}`;
+
+export const LearnedWeightsPanel = ({
+  weights,
+  tagBoosts,
+  rankedPhotos,
+  rank,
+  onApply,
+}: LearnedWeightsPanelProps) => {
+  const [learned, setLearned] = useState<LearnedWeights | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const before = rankedPhotos.slice(0, PREVIEW_SIZE);
+  const after = useMemo(
+    () => (learned ? rank(learned.weights, learned.tagBoosts).slice(0, PREVIEW_SIZE) : []),
+    [rank, learned],
+  );
+  const beforeIds = before.map(({ photo }) => photo.id);
+  const activeBoosts = Object.entries(tagBoosts);
+
+  const learn = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/learned-weights");
+      const body = (await response.json()) as { learned?: LearnedWeights; error?: string };
+      if (!response.ok || !body.learned) {
+        throw new Error(body.error ?? `Request failed with ${response.status}`);
+      }
+      setLearned(body.learned);
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-[2.5rem] border border-white/10 bg-slate-950/80 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.3rem] text-slate-400">
+            Learned weights
+          </p>
+          <h2 className="text-2xl font-semibold text-white">
+            {learned ? "Preview learned ranking" : "Learn from past selections"}
+          </h2>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {activeBoosts.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onApply(weights, {})}
+              className="rounded-full border border-white/10 bg-white/5 px-3 py-2 font-semibold uppercase tracking-wide text-slate-300 transition hover:border-white/30"
+            >
+              Clear {activeBoosts.length} tag boosts
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => void learn()}
+            disabled={busy}
+            className="rounded-full border border-white/10 bg-white/5 px-3 py-2 font-semibold uppercase tracking-wide text-slate-300 transition hover:border-white/30 disabled:opacity-50"
+          >
+            {busy ? "Learning…" : learned ? "Re-learn" : "Learn weights"}
+          </button>
+          {learned && (
+            <button
+              type="button"
+              onClick={() => {
+                onApply(learned.weights, learned.tagBoosts);
+                setLearned(null);
+              }}
+              className="rounded-full bg-blue-500 px-4 py-2 font-semibold uppercase tracking-wide text-white transition hover:bg-blue-400"
+            >
+              Apply learned weights
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <p className="mt-3 text-xs text-rose-300">{error}</p>}
+      {!learned && !error && (
+        <p className="mt-3 text-sm text-slate-400">
+          Fits the sliders and per-tag boosts to what you shortlisted versus skipped across every
+          project, then shows how the top {PREVIEW_SIZE} would change before you commit.
+        </p>
+      )}
+      {learned && (
+        <div className="mt-6 space-y-6 text-sm">
+          <p className="text-xs text-slate-400">
+            Fitted on {learned.examples.toLocaleString()} frames ({learned.selections} shortlisted)
+            from {learned.projects} {learned.projects === 1 ? "project" : "projects"}.
+          </p>
+          <div className="grid gap-3 md:grid-cols-3">
+            {(Object.keys(componentLabels) as Array<keyof ScoringWeights>).map((key) => (
+              <div key={key} className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
+                <p className="text-[0.65rem] uppercase tracking-wide text-slate-400">
+                  {componentLabels[key]}
+                </p>
+                <p className="mt-1 font-semibold text-white">
+                  {weights[key]}% → {learned.weights[key]}%
+                </p>
+              </div>
+            ))}
+          </div>
+          {Object.keys(learned.tagBoosts).length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs font-semibold">
+              {Object.entries(learned.tagBoosts).map(([tag, boost]) => (
+                <span
+                  key={tag}
+                  className={`rounded-full px-3 py-1 ${
+                    boost > 0
+                      ? "bg-emerald-500/15 text-emerald-200"
+                      : "bg-rose-500/15 text-rose-200"
+                  }`}
+                >
+                  #{tag} {formatBoost(boost)} pts
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="grid gap-6 md:grid-cols-2">
+            {[
+              { title: `Current top ${PREVIEW_SIZE}`, entries: before, compare: false },
+              { title: "With learned weights", entries: after, compare: true },
+            ].map(({ title, entries, compare }) => (
+              <div key={title}>
+                <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {title}
+                </p>
+                <ol className="mt-3 space-y-1 text-xs">
+                  {entries.map(({ photo, score }, index) => {
+                    const movement = movementLabel(beforeIds.indexOf(photo.id), index);
+                    return (
+                      <li
+                        key={photo.id}
+                        className="flex items-center justify-between gap-3 rounded-xl bg-white/5 px-3 py-2"
+                      >
+                        <span className="truncate text-slate-200">
+                          {index + 1}. {photo.title}
+                        </span>
+                        <span className="flex shrink-0 gap-3">
+                          <span className="text-slate-400">{(score * 100).toFixed(0)}%</span>
+                          {compare && (
+                            <span className={`w-8 text-right font-semibold ${movement.className}`}>
+                              {movement.text}
+                            </span>
+                          )}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
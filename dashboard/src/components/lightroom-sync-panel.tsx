@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { PICK_LABEL, type XmpExportResult, type XmpRating } from "@/lib/xmp";
+
+type LightroomSyncPanelProps = {
+  projectId: string;
+  isSaving: boolean;
+  ratings: Record<string, XmpRating>;
+  onRatingsLoaded: (ratings: Record<string, XmpRating>) => void;
+  onShortlistPicks: (photoIds: string[]) => void;
+};
+
+export const LightroomSyncPanel = ({
+  projectId,
+  isSaving,
+  ratings,
+  onRatingsLoaded,
+  onShortlistPicks,
+}: LightroomSyncPanelProps) => {
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const labelledPicks = Object.entries(ratings)
+    .filter(([, rating]) => rating.label === PICK_LABEL)
+    .map(([photoId]) => photoId);
+
+  const run = async (method: "GET" | "POST") => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/xmp`, { method });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error ?? `Request failed with ${response.status}`);
+
+      if (method === "POST") {
+        const { written, skipped } = body as XmpExportResult;
+        setMessage(
+          skipped.length
+            ? `Wrote XMP for ${written} frames; left ${skipped.length} edited elsewhere untouched.`
+            : `Wrote XMP for ${written} frames.`,
+        );
+      } else {
+        const loaded = (body as { ratings: Record<string, XmpRating> }).ratings;
+        onRatingsLoaded(loaded);
+        setMessage(`Read ratings for ${Object.keys(loaded).length} frames.`);
+      }
+    } catch (caught) {
+      setMessage(caught instanceof Error ? caught.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-3xl border border-white/10 bg-white/5 p-5 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="font-semibold text-white">Lightroom / Capture One sync</p>
+          <p className="text-xs text-slate-400">
+            Star ratings follow the score tiers; shortlisted frames get the {PICK_LABEL} label.
+          </p>
+          <p className="text-xs text-slate-500">
+            XMP goes into each JPEG, plus a sidecar when a RAW of the same name sits beside it.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          <button
+            type="button"
+            onClick={() => void run("GET")}
+            disabled={busy}
+            className="rounded-full border border-white/10 bg-white/5 px-3 py-2 font-semibold uppercase tracking-wide text-slate-300 transition hover:border-white/30 disabled:opacity-50"
+          >
+            Read XMP ratings
+          </button>
+          <button
+            type="button"
+            onClick={() => void run("POST")}
+            disabled={busy || isSaving}
+            className="rounded-full bg-white/90 px-3 py-2 font-semibold uppercase tracking-wide text-slate-900 transition hover:bg-white disabled:opacity-50"
+          >
+            Write XMP
+          </button>
+        </div>
+      </div>
+      {message && <p className="mt-3 text-xs text-slate-300">{message}</p>}
+      {labelledPicks.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onShortlistPicks(labelledPicks)}
+          className="mt-3 text-xs font-semibold uppercase tracking-wide text-emerald-300 hover:text-emerald-200"
+        >
+          Shortlist {labelledPicks.length} {PICK_LABEL}-labelled frames from Lightroom
+        </button>
+      )}
+    </div>
+  );
+};
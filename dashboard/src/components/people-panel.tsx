@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import type { FaceBox, PeopleRule, PeopleRuleCheck, PeopleRuleMode, Person } from "@/lib/people";
+
+type PeoplePanelProps = {
+  people: Person[];
+  rules: PeopleRule[];
+  checks: PeopleRuleCheck[];
+  onRename: (personId: string, name: string) => void;
+  onRulesChange: (rules: PeopleRule[]) => void;
+};
+
+type FaceAvatarProps = {
+  url: string;
+  box: FaceBox;
+  label: string;
+};
+
+const modeLabels: Record<PeopleRuleMode, string> = {
+  together: "Together in",
+  each: "Each in",
+};
+
+const cropPosition = (offset: number, extent: number) =>
+  extent >= 1 ? 0 : (offset / (1 - extent)) * 100;
+
+/** Crops a thumbnail to a detected face with CSS alone, so no extra derivative is needed. */
+export const FaceAvatar = ({ url, box, label }: FaceAvatarProps) => (
+  <span
+    role="img"
+    aria-label={label}
+    className="block h-12 w-12 shrink-0 rounded-full border border-white/20 bg-slate-800 bg-no-repeat"
+    style={{
+      backgroundImage: `url(${url})`,
+      backgroundSize: `${100 / box.width}% ${100 / box.height}%`,
+      backgroundPosition: `${cropPosition(box.x, box.width)}% ${cropPosition(box.y, box.height)}%`,
+    }}
+  />
+);
+
+export const PeoplePanel = ({
+  people,
+  rules,
+  checks,
+  onRename,
+  onRulesChange,
+}: PeoplePanelProps) => {
+  const [pickedIds, setPickedIds] = useState<string[]>([]);
+  const [mode, setMode] = useState<PeopleRuleMode>("together");
+  const [minFrames, setMinFrames] = useState(20);
+
+  const addRule = () => {
+    if (pickedIds.length === 0) return;
+    onRulesChange([
+      ...rules,
+      { id: Date.now().toString(36), personIds: pickedIds, mode, minFrames },
+    ]);
+    setPickedIds([]);
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-slate-950/80 p-6 shadow-lg shadow-black/20">
+      <h2 className="text-lg font-semibold text-white">People</h2>
+      <p className="mt-1 text-sm text-slate-400">
+        Faces grouped at ingest. Name the people who matter and tell the brief how often they
+        must appear.
+      </p>
+      {people.length === 0 ? (
+        <p className="mt-6 rounded-2xl border border-dashed border-white/20 bg-white/5 px-4 py-6 text-center text-xs text-slate-400">
+          No recurring faces found. Set CURATOR_FACE_MODELS to detect faces during ingest.
+        </p>
+      ) : (
+        <>
+          <ul className="mt-6 max-h-72 space-y-3 overflow-y-auto pr-1">
+            {people.map((person) => {
+              const isPicked = pickedIds.includes(person.id);
+              return (
+                <li key={person.id} className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setPickedIds((prev) =>
+                        isPicked ? prev.filter((id) => id !== person.id) : [...prev, person.id],
+                      )
+                    }
+                    aria-pressed={isPicked}
+                    aria-label={`${isPicked ? "Remove" : "Add"} ${person.label} for a new rule`}
+                    className={`rounded-full ring-2 transition ${
+                      isPicked ? "ring-emerald-400" : "ring-transparent hover:ring-white/30"
+                    }`}
+                  >
+                    <FaceAvatar
+                      url={person.coverPhoto.thumbnailUrl}
+                      box={person.coverBox}
+                      label={person.label}
+                    />
+                  </button>
+                  <div className="min-w-0 flex-1">
+                    <input
+                      key={person.label}
+                      defaultValue={person.label}
+                      onBlur={(event) => {
+                        const name = event.target.value.trim();
+                        if (name && name !== person.label) onRename(person.id, name);
+                      }}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter") event.currentTarget.blur();
+                      }}
+                      aria-label={`Name for ${person.label}`}
+                      className="w-full rounded-xl border border-transparent bg-transparent px-2 py-1 text-sm font-semibold text-white outline-none hover:border-white/10 focus:border-blue-400/70"
+                    />
+                    <p className="px-2 text-xs text-slate-500">{person.frameCount} frames</p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="mt-6 space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4 text-xs">
+            <p className="font-semibold uppercase tracking-wide text-slate-500">
+              New rule · {pickedIds.length} picked
+            </p>
+            <div className="flex items-center gap-2">
+              <select
+                value={mode}
+                onChange={(event) => setMode(event.target.value as PeopleRuleMode)}
+                className="flex-1 rounded-xl border border-white/10 bg-slate-900 px-2 py-2 text-white outline-none focus:border-blue-400/70"
+              >
+                {(Object.keys(modeLabels) as PeopleRuleMode[]).map((option) => (
+                  <option key={option} value={option}>
+                    {modeLabels[option]}
+                  </option>
+                ))}
+              </select>
+              <span className="text-slate-400">≥</span>
+              <input
+                type="number"
+                min={1}
+                value={minFrames}
+                onChange={(event) => setMinFrames(Math.max(1, Number(event.target.value) || 1))}
+                aria-label="Minimum frames"
+                className="w-16 rounded-xl border border-white/10 bg-slate-900 px-2 py-2 text-white outline-none focus:border-blue-400/70"
+              />
+              <span className="text-slate-400">frames</span>
+            </div>
+            <button
+              type="button"
+              onClick={addRule}
+              disabled={pickedIds.length === 0}
+              className="w-full rounded-full bg-blue-500 px-4 py-2 font-semibold uppercase tracking-wide text-white transition hover:bg-blue-400 disabled:opacity-40"
+            >
+              Add to brief
+            </button>
+          </div>
+        </>
+      )}
+
+      {checks.length > 0 && (
+        <ul className="mt-6 space-y-2 text-xs">
+          {checks.map(({ rule, satisfied, message }) => (
+            <li
+              key={rule.id}
+              className={`flex items-start justify-between gap-2 rounded-2xl border px-3 py-2 ${
+                satisfied
+                  ? "border-emerald-400/40 bg-emerald-500/10 text-emerald-100"
+                  : "border-rose-400/50 bg-rose-500/10 text-rose-100"
+              }`}
+            >
+              <span>
+                {satisfied ? "✓ " : "✗ "}
+                {message}
+              </span>
+              <button
+                type="button"
+                onClick={() => onRulesChange(rules.filter((item) => item.id !== rule.id))}
+                aria-label="Remove rule"
+                className="text-slate-400 hover:text-white"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,33 @@
 "use client";
 
 import Image from "next/image";
+import { colorOf, describeLook, paletteOf } from "@/lib/color-grading";
 import type { Photo } from "@/lib/photo-data";
+import type { ClientResponse } from "@/lib/proofing";
+import { detectRejectFlags, rejectReasonLabels } from "@/lib/reject-flags";
+import { consensusLabels, type PhotoConsensus } from "@/lib/reviews";
+import type { ScoreBreakdown } from "@/lib/score-breakdown";
+import { scoreToLabel } from "@/lib/score-tiers";
+import type { XmpRating } from "@/lib/xmp";
+import { ScoreBreakdownView } from "./score-breakdown-view";
 
 type PhotoCardProps = {
   photo: Photo;
   score: number;
+  breakdown?: ScoreBreakdown;
   isSelected: boolean;
   onToggle: (id: string) => void;
+  clientResponse?: ClientResponse;
+  xmpRating?: XmpRating;
+  rating?: number;
+  onOpen?: () => void;
+  isCompared?: boolean;
+  onToggleCompare?: () => void;
+  burstSize?: number;
+  isStackExpanded?: boolean;
+  onToggleStack?: () => void;
+  consensus?: PhotoConsensus;
+  onFindSimilar?: () => void;
 };
 
 const formatDate = (isoDate: string) => {
@@ -18,15 +38,94 @@ const formatDate = (isoDate: string) => {
   });
 };
 
-const scoreToLabel = (score: number) => {
-  if (score > 0.86) return "Hero candidate";
-  if (score > 0.72) return "Strong pick";
-  if (score > 0.6) return "Consider";
-  return "Hold";
+const RejectBadges = ({ photo }: { photo: Photo }) => {
+  const flags = detectRejectFlags(photo);
+  if (flags.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-2 text-xs font-semibold">
+      {flags.map((flag) => (
+        <span
+          key={flag.reason}
+          title={flag.detail}
+          className="rounded-full bg-rose-500/15 px-2 py-1 text-rose-600 dark:text-rose-300"
+        >
+          ⚠ {rejectReasonLabels[flag.reason]}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+const PaletteStrip = ({ photo }: { photo: Photo }) => {
+  const palette = paletteOf(photo);
+  if (palette.length === 0) return null;
+  const color = colorOf(photo);
+  const total = palette.reduce((acc, swatch) => acc + swatch.share, 0);
+  return (
+    <div
+      className="absolute inset-x-0 bottom-0 flex h-1.5"
+      title={color ? describeLook(color) : undefined}
+    >
+      {palette.map((swatch) => (
+        <span
+          key={swatch.color}
+          style={{ backgroundColor: swatch.color, width: `${(swatch.share / total) * 100}%` }}
+        />
+      ))}
+    </div>
+  );
 };
 
-export const PhotoCard = ({ photo, score, isSelected, onToggle }: PhotoCardProps) => (
-  <article className="group relative flex flex-col overflow-hidden rounded-2xl border border-zinc-200 bg-white shadow-sm transition hover:-translate-y-1 hover:border-blue-400/60 hover:shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
+const ConsensusBadges = ({ consensus }: { consensus: PhotoConsensus }) => (
+  <div className="flex flex-wrap items-center gap-2 text-xs font-semibold">
+    {consensus.status === "conflict" && (
+      <span className="rounded-full bg-amber-500/20 px-2 py-1 text-amber-700 dark:text-amber-200">
+        ⚡ {consensusLabels.conflict}
+      </span>
+    )}
+    {consensus.picks.length > 0 && (
+      <span className="rounded-full bg-emerald-500/15 px-2 py-1 text-emerald-700 dark:text-emerald-300">
+        {consensus.picks.length} {consensus.picks.length === 1 ? "pick" : "picks"}
+      </span>
+    )}
+    {consensus.rejects.length > 0 && (
+      <span className="rounded-full bg-slate-200 px-2 py-1 text-slate-600 dark:bg-slate-700 dark:text-slate-200">
+        {consensus.rejects.length} {consensus.rejects.length === 1 ? "reject" : "rejects"}
+      </span>
+    )}
+    {consensus.averageRating !== null && (
+      <span className="text-amber-500 dark:text-amber-300" title="Average reviewer rating">
+        ★ {consensus.averageRating.toFixed(1)}
+      </span>
+    )}
+  </div>
+);
+
+export const PhotoCard = ({
+  photo,
+  score,
+  breakdown,
+  isSelected,
+  onToggle,
+  clientResponse,
+  xmpRating,
+  rating,
+  onOpen,
+  isCompared = false,
+  onToggleCompare,
+  burstSize = 1,
+  isStackExpanded = false,
+  onToggleStack,
+  consensus,
+  onFindSimilar,
+}: PhotoCardProps) => (
+  <article
+    className={`group relative flex flex-col overflow-hidden rounded-2xl border bg-white shadow-sm transition hover:-translate-y-1 hover:border-blue-400/60 hover:shadow-lg dark:bg-zinc-900 ${
+      consensus?.status === "conflict"
+        ? "border-amber-400 dark:border-amber-400/70"
+        : "border-zinc-200 dark:border-zinc-800"
+    }`}
+  >
     <div className="relative aspect-[4/3] overflow-hidden">
       <Image
         src={photo.thumbnailUrl}
@@ -36,7 +135,16 @@ export const PhotoCard = ({ photo, score, isSelected, onToggle }: PhotoCardProps
         className="object-cover transition duration-700 group-hover:scale-[1.03]"
         priority={score > 0.9}
       />
+      {onOpen && (
+        <button
+          type="button"
+          onClick={onOpen}
+          aria-label={`Open ${photo.title} in the loupe`}
+          className="absolute inset-0 cursor-zoom-in"
+        />
+      )}
       <div className="pointer-events-none absolute inset-0 bg-gradient-to-t from-black/45 via-black/10 to-transparent opacity-95" />
+      <PaletteStrip photo={photo} />
       <div className="absolute left-4 top-4 flex items-center gap-2">
         <span className="rounded-full bg-blue-500/90 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white shadow">
           {scoreToLabel(score)}
@@ -73,6 +181,53 @@ export const PhotoCard = ({ photo, score, isSelected, onToggle }: PhotoCardProps
         <span>{photo.location}</span>
         <span>{photo.faces === 0 ? "No faces" : `${photo.faces} faces`}</span>
       </div>
+      <RejectBadges photo={photo} />
+      {consensus && <ConsensusBadges consensus={consensus} />}
+      {rating !== undefined && (
+        <p className="text-xs font-semibold text-amber-500 dark:text-amber-300" title="Your rating">
+          {"★".repeat(rating)}
+          <span className="text-slate-300 dark:text-slate-600">{"★".repeat(5 - rating)}</span>
+        </p>
+      )}
+      {xmpRating && (
+        <p
+          className="text-xs font-semibold text-amber-500 dark:text-amber-300"
+          title="Rating read from the frame's XMP"
+        >
+          {"★".repeat(Math.max(0, Math.min(5, xmpRating.rating)))}
+          <span className="text-slate-300 dark:text-slate-600">
+            {"★".repeat(5 - Math.max(0, Math.min(5, xmpRating.rating)))}
+          </span>
+          {xmpRating.label && (
+            <span className="ml-2 font-medium text-slate-500 dark:text-slate-400">
+              {xmpRating.label} label
+            </span>
+          )}
+        </p>
+      )}
+      {clientResponse && (clientResponse.verdict || clientResponse.comments.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2 text-xs font-semibold">
+          {clientResponse.verdict === "heart" && (
+            <span className="rounded-full bg-rose-500/15 px-2 py-1 text-rose-600 dark:text-rose-300">
+              ♥ Client pick
+            </span>
+          )}
+          {clientResponse.verdict === "reject" && (
+            <span className="rounded-full bg-slate-200 px-2 py-1 text-slate-600 dark:bg-slate-700 dark:text-slate-200">
+              Client passed
+            </span>
+          )}
+          {clientResponse.comments.length > 0 && (
+            <span
+              title={clientResponse.comments.map((comment) => comment.body).join("\n")}
+              className="rounded-full bg-blue-500/10 px-2 py-1 text-blue-600 dark:text-blue-300"
+            >
+              {clientResponse.comments.length} client{" "}
+              {clientResponse.comments.length === 1 ? "comment" : "comments"}
+            </span>
+          )}
+        </div>
+      )}
       <div className="flex flex-wrap gap-2 text-xs font-medium text-slate-600 dark:text-slate-400">
         {photo.tags.slice(0, 4).map((tag) => (
           <span
@@ -83,6 +238,47 @@ export const PhotoCard = ({ photo, score, isSelected, onToggle }: PhotoCardProps
           </span>
         ))}
       </div>
+      {onToggleCompare && (
+        <button
+          type="button"
+          onClick={onToggleCompare}
+          className={`self-start rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide transition ${
+            isCompared
+              ? "border-blue-500 bg-blue-500/15 text-blue-700 dark:text-blue-200"
+              : "border-slate-200 text-slate-500 hover:border-blue-400/60 dark:border-slate-700 dark:text-slate-300"
+          }`}
+        >
+          {isCompared ? "✓ In compare" : "Compare"}
+        </button>
+      )}
+      {onFindSimilar && (
+        <button
+          type="button"
+          onClick={onFindSimilar}
+          className="self-start rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500 transition hover:border-blue-400/60 dark:border-slate-700 dark:text-slate-300"
+        >
+          More like this
+        </button>
+      )}
+      {burstSize > 1 && onToggleStack && (
+        <button
+          type="button"
+          onClick={onToggleStack}
+          className="self-start rounded-full border border-amber-400/60 bg-amber-500/10 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-amber-700 transition hover:bg-amber-500/20 dark:text-amber-200"
+        >
+          {isStackExpanded ? "Collapse burst" : `+${burstSize - 1} similar frames`}
+        </button>
+      )}
+      {breakdown && (
+        <details className="rounded-lg border border-slate-100 px-3 py-2 dark:border-slate-800">
+          <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+            Score breakdown
+          </summary>
+          <div className="mt-3">
+            <ScoreBreakdownView breakdown={breakdown} />
+          </div>
+        </details>
+      )}
       <div className="mt-auto grid grid-cols-3 gap-2 text-center text-xs">
         <div className="rounded-lg bg-slate-50 px-2 py-2 font-semibold text-slate-600 dark:bg-slate-800 dark:text-slate-300">
           <p className="text-[0.65rem] uppercase tracking-wide text-slate-400 dark:text-slate-500">
@@ -0,0 +1,185 @@
+"use client";
+
+import Image from "next/image";
+import { useState } from "react";
+import {
+  emptyClientResponse,
+  MAX_COMMENT_LENGTH,
+  type ClientResponse,
+  type ClientResponseUpdate,
+  type ClientVerdict,
+  type ProofingPhoto,
+} from "@/lib/proofing";
+
+type ProofingClientProps = {
+  token: string;
+  title: string;
+  photos: ProofingPhoto[];
+  initialResponses: Record<string, ClientResponse>;
+};
+
+export const ProofingClient = ({ token, title, photos, initialResponses }: ProofingClientProps) => {
+  const [responses, setResponses] = useState(initialResponses);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const hearted = photos.filter((photo) => responses[photo.id]?.verdict === "heart").length;
+  const rejected = photos.filter((photo) => responses[photo.id]?.verdict === "reject").length;
+
+  const sendUpdate = async (update: ClientResponseUpdate) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/galleries/${token}/responses`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) throw new Error(`Saving your response failed with ${response.status}`);
+      const { response: saved } = (await response.json()) as { response: ClientResponse };
+      setResponses((prev) => ({ ...prev, [update.photoId]: saved }));
+      return true;
+    } catch {
+      setError("We couldn't save that — please check your connection and try again.");
+      return false;
+    }
+  };
+
+  const toggleVerdict = (photoId: string, verdict: ClientVerdict) => {
+    const current = responses[photoId]?.verdict ?? null;
+    void sendUpdate({ photoId, verdict: current === verdict ? null : verdict });
+  };
+
+  const submitComment = async (photoId: string) => {
+    const comment = drafts[photoId]?.trim();
+    if (!comment) return;
+    if (await sendUpdate({ photoId, comment })) {
+      setDrafts((prev) => ({ ...prev, [photoId]: "" }));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100">
+      <header className="border-b border-white/10 bg-slate-950/80 backdrop-blur">
+        <div className="mx-auto flex max-w-7xl flex-wrap items-center justify-between gap-6 px-6 py-6">
+          <div>
+            <p className="text-sm font-medium uppercase tracking-[0.3rem] text-slate-400">
+              Proofing gallery
+            </p>
+            <h1 className="text-3xl font-semibold text-white lg:text-4xl">{title}</h1>
+            <p className="mt-1 text-sm text-slate-400">
+              Heart the frames you love, pass on the ones you don&apos;t, and leave notes for your
+              photographer.
+            </p>
+          </div>
+          <div className="flex items-center gap-4 text-sm">
+            <div className="rounded-2xl bg-rose-500/10 px-5 py-3 text-rose-200">
+              <p className="text-[0.7rem] uppercase tracking-wide text-rose-200/80">Favourites</p>
+              <p className="text-xl font-semibold text-rose-100">{hearted}</p>
+            </div>
+            <div className="rounded-2xl bg-slate-900/80 px-5 py-3">
+              <p className="text-[0.7rem] uppercase tracking-wide text-slate-400">Passed</p>
+              <p className="text-xl font-semibold text-white">{rejected}</p>
+            </div>
+          </div>
+        </div>
+      </header>
+      <main className="mx-auto max-w-7xl px-6 py-8">
+        {error && (
+          <p className="mb-6 rounded-2xl border border-rose-400/40 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+            {error}
+          </p>
+        )}
+        {photos.length === 0 ? (
+          <p className="rounded-3xl border border-dashed border-white/20 bg-white/5 px-6 py-12 text-center text-sm text-slate-400">
+            This gallery is being prepared. Check back soon.
+          </p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+            {photos.map((photo) => {
+              const response = responses[photo.id] ?? emptyClientResponse;
+              return (
+                <article
+                  key={photo.id}
+                  className="flex flex-col overflow-hidden rounded-3xl border border-white/10 bg-slate-900/70"
+                >
+                  <div className="relative aspect-[4/3]">
+                    <Image
+                      src={photo.url}
+                      alt={photo.title}
+                      fill
+                      sizes="(max-width: 768px) 100vw, 33vw"
+                      className="object-cover"
+                    />
+                  </div>
+                  <div className="flex flex-1 flex-col gap-4 p-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-semibold text-white">{photo.title}</p>
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => toggleVerdict(photo.id, "heart")}
+                          aria-pressed={response.verdict === "heart"}
+                          className={`rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide transition ${
+                            response.verdict === "heart"
+                              ? "border-rose-400 bg-rose-500/80 text-white"
+                              : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
+                          }`}
+                        >
+                          ♥ Love
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => toggleVerdict(photo.id, "reject")}
+                          aria-pressed={response.verdict === "reject"}
+                          className={`rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide transition ${
+                            response.verdict === "reject"
+                              ? "border-slate-300 bg-slate-200 text-slate-900"
+                              : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
+                          }`}
+                        >
+                          Pass
+                        </button>
+                      </div>
+                    </div>
+                    {response.comments.length > 0 && (
+                      <ul className="space-y-2 text-sm text-slate-300">
+                        {response.comments.map((comment) => (
+                          <li key={comment.id} className="rounded-2xl bg-white/5 px-3 py-2">
+                            {comment.body}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <form
+                      className="mt-auto flex gap-2"
+                      onSubmit={(event) => {
+                        event.preventDefault();
+                        void submitComment(photo.id);
+                      }}
+                    >
+                      <input
+                        value={drafts[photo.id] ?? ""}
+                        onChange={(event) =>
+                          setDrafts((prev) => ({ ...prev, [photo.id]: event.target.value }))
+                        }
+                        maxLength={MAX_COMMENT_LENGTH}
+                        placeholder="Add a note for your photographer…"
+                        className="min-w-0 flex-1 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white outline-none transition focus:border-blue-400/70 focus:bg-white/10"
+                      />
+                      <button
+                        type="submit"
+                        className="rounded-2xl bg-white/90 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-900 hover:bg-white"
+                      >
+                        Send
+                      </button>
+                    </form>
+                  </div>
+                </article>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
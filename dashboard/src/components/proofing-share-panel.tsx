@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { proofingUrl, type GalleryStatus, type ProofingGallery } from "@/lib/proofing";
+
+type ProofingSharePanelProps = {
+  projectId: string;
+  selectedIds: Set<string>;
+  gallery: ProofingGallery | null;
+  onGalleryChange: (gallery: ProofingGallery) => void;
+};
+
+export const ProofingSharePanel = ({
+  projectId,
+  selectedIds,
+  gallery,
+  onGalleryChange,
+}: ProofingSharePanelProps) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const responses = gallery ? Object.values(gallery.responses) : [];
+  const hearted = responses.filter((response) => response.verdict === "heart").length;
+  const rejected = responses.filter((response) => response.verdict === "reject").length;
+  const comments = responses.reduce((acc, response) => acc + response.comments.length, 0);
+  const isOutOfDate =
+    gallery !== null &&
+    (gallery.photoIds.length !== selectedIds.size ||
+      gallery.photoIds.some((id) => !selectedIds.has(id)));
+
+  const request = async <T extends GalleryStatus>(
+    init: RequestInit | undefined,
+    apply: (gallery: T) => void,
+  ) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/gallery`, init);
+      const body = (await response.json()) as { gallery?: T | null; error?: string };
+      if (!response.ok) throw new Error(body.error ?? `Request failed with ${response.status}`);
+      if (body.gallery) apply(body.gallery);
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const publish = () =>
+    request<ProofingGallery>(
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ photoIds: Array.from(selectedIds) }),
+      },
+      onGalleryChange,
+    );
+
+  /** The status route leaves the token out, so the one this page already holds is kept. */
+  const refresh = () =>
+    request<GalleryStatus>(undefined, (status) => {
+      if (gallery) onGalleryChange({ ...status, token: gallery.token });
+    });
+
+  const copyLink = async () => {
+    if (!gallery) return;
+    await navigator.clipboard.writeText(`${window.location.origin}${proofingUrl(gallery.token)}`);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="mt-6 rounded-3xl border border-white/10 bg-white/5 p-5 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="font-semibold text-white">Client proofing gallery</p>
+          <p className="text-xs text-slate-400">
+            {gallery
+              ? `${gallery.photoIds.length} frames shared · ${hearted} loved · ${rejected} passed · ${comments} comments`
+              : "Share the shortlist with your client through a private link."}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {gallery && (
+            <>
+              <button
+                type="button"
+                onClick={() => void refresh()}
+                disabled={busy}
+                className="rounded-full border border-white/10 bg-white/5 px-3 py-2 font-semibold uppercase tracking-wide text-slate-300 transition hover:border-white/30 disabled:opacity-50"
+              >
+                Refresh client picks
+              </button>
+              <button
+                type="button"
+                onClick={() => void copyLink()}
+                className="rounded-full border border-white/10 bg-white/5 px-3 py-2 font-semibold uppercase tracking-wide text-slate-300 transition hover:border-white/30"
+              >
+                {copied ? "Link copied" : "Copy link"}
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => void publish()}
+            disabled={busy || selectedIds.size === 0 || (gallery !== null && !isOutOfDate)}
+            className="rounded-full bg-emerald-500 px-3 py-2 font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400 disabled:opacity-50"
+          >
+            {gallery ? "Update shared gallery" : "Share with client"}
+          </button>
+        </div>
+      </div>
+      {error && <p className="mt-3 text-xs text-rose-300">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import type { QueryError } from "@/lib/photo-query";
+import type { SavedSearch } from "@/lib/projects";
+import type { SemanticQuery } from "@/lib/semantic-search";
+import type { SemanticSearchStatus } from "@/lib/use-semantic-search";
+
+type QuerySearchProps = {
+  query: string;
+  error: QueryError | null;
+  savedSearches: SavedSearch[];
+  collectionCounts: Record<string, number | null>;
+  onQueryChange: (query: string) => void;
+  semanticKind: SemanticQuery["kind"] | null;
+  semanticStatus: SemanticSearchStatus;
+  semanticError: string | null;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+};
+
+const examples = [
+  ["mood:Joyful shot:Portrait", "field matches, ANDed"],
+  ['location:"Rose Garden"', "quote values with spaces"],
+  ["faces>=2 score>0.8", "compare faces, score, sharpness, emotion, fit, rating"],
+  ["-tag:blurry", "exclude with - or NOT"],
+  ["(mood:Calm OR mood:Romantic)", "group alternatives"],
+  ["is:shortlisted is:rated is:commented", "curation state"],
+  ["is:rejected", "closed eyes or a blurred subject"],
+  ["is:conflict is:agreed", "reviewers disagree, or all picked it"],
+  ["is:on-look", "white balance and saturation match the shortlist"],
+  ["first dance", "free text over tags, notes, comments and titles"],
+  ['describe:"bride laughing under string lights"', "by what's in the frame (CLIP models)"],
+];
+
+const semanticNotes: Record<SemanticQuery["kind"], string> = {
+  text: "Closest matches to the description first.",
+  photo: "Frames that look like this one, closest first.",
+};
+
+export const QuerySearch = ({
+  query,
+  error,
+  savedSearches,
+  collectionCounts,
+  onQueryChange,
+  semanticKind,
+  semanticStatus,
+  semanticError,
+  onSave,
+  onDelete,
+}: QuerySearchProps) => {
+  const [draftName, setDraftName] = useState("");
+  const canSave = query.trim() !== "" && !error && draftName.trim() !== "";
+
+  const save = () => {
+    if (!canSave) return;
+    onSave(draftName.trim());
+    setDraftName("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+        Search
+      </label>
+      <input
+        value={query}
+        onChange={(event) => onQueryChange(event.target.value)}
+        placeholder="mood:Joyful faces>=2 -tag:blurry"
+        spellCheck={false}
+        aria-invalid={error !== null}
+        className={`w-full rounded-2xl border bg-white/5 px-4 py-3 font-mono text-sm text-white outline-none transition focus:bg-white/10 ${
+          error ? "border-rose-400/70" : "border-white/10 focus:border-blue-400/70"
+        }`}
+      />
+      {semanticKind && semanticStatus === "searching" && (
+        <p className="text-xs text-slate-400">Searching by what&apos;s in the frame…</p>
+      )}
+      {semanticKind && semanticStatus === "ready" && (
+        <p className="text-xs text-blue-200">{semanticNotes[semanticKind]}</p>
+      )}
+      {semanticStatus === "error" && (
+        <p className="text-xs text-amber-200">{semanticError}. Matching keywords only.</p>
+      )}
+      {error && (
+        <div className="rounded-2xl border border-rose-400/30 bg-rose-500/10 px-4 py-2 text-xs text-rose-200">
+          <p className="whitespace-pre font-mono">
+            {query.slice(0, error.start)}
+            <mark className="rounded bg-rose-500/60 text-white">
+              {query.slice(error.start, error.end) || " "}
+            </mark>
+            {query.slice(error.end)}
+          </p>
+          <p className="mt-1">{error.message}. Other filters still apply.</p>
+        </div>
+      )}
+      <details className="text-xs text-slate-400">
+        <summary className="cursor-pointer font-semibold uppercase tracking-wide text-slate-500">
+          Query syntax
+        </summary>
+        <ul className="mt-2 space-y-1">
+          {examples.map(([example, description]) => (
+            <li key={example}>
+              <button
+                type="button"
+                onClick={() => onQueryChange(example)}
+                className="font-mono text-blue-200 hover:text-blue-100"
+              >
+                {example}
+              </button>{" "}
+              — {description}
+            </li>
+          ))}
+        </ul>
+      </details>
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Smart collections
+        </p>
+        {savedSearches.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-2">
+            {savedSearches.map((search) => {
+              const active = search.query === query;
+              const count = collectionCounts[search.id];
+              return (
+                <span
+                  key={search.id}
+                  className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                    active
+                      ? "border-blue-400/70 bg-blue-500/20 text-blue-100"
+                      : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onQueryChange(active ? "" : search.query)}
+                    title={search.query}
+                  >
+                    {search.name}
+                    <span className="ml-1 text-slate-400">{count ?? "!"}</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete(search.id)}
+                    aria-label={`Delete ${search.name}`}
+                    className="text-slate-500 hover:text-rose-300"
+                  >
+                    ×
+                  </button>
+                </span>
+              );
+            })}
+          </div>
+        )}
+        <div className="mt-2 flex gap-2">
+          <input
+            value={draftName}
+            onChange={(event) => setDraftName(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && save()}
+            placeholder="Name this search…"
+            className="min-w-0 flex-1 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-xs text-white outline-none focus:border-blue-400/70"
+          />
+          <button
+            type="button"
+            onClick={save}
+            disabled={!canSave}
+            className="rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 transition hover:border-white/30 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+"use client";
+
+import { useState } from "react";
+import type { Photo } from "@/lib/photo-data";
+import {
+  consensusLabels,
+  MAX_REVIEWER_NAME_LENGTH,
+  reviewerInitials,
+  reviewerRoleLabels,
+  type ConsensusStatus,
+  type PhotoConsensus,
+  type Reviewer,
+  type ReviewerRole,
+  type ReviewVotes,
+} from "@/lib/reviews";
+import type { ChannelStatus } from "@/lib/use-review-channel";
+
+type ReviewPanelProps = {
+  photos: Photo[];
+  reviewer: Reviewer | null;
+  reviewers: Reviewer[];
+  votes: ReviewVotes;
+  consensus: Record<string, PhotoConsensus>;
+  status: ChannelStatus;
+  error: string | null;
+  onSignIn: (name: string, role: ReviewerRole) => void;
+  onSignOut: () => void;
+  onOpen: (photoId: string) => void;
+  onShowConflicts: () => void;
+  onShortlistAgreed: (photoIds: string[]) => void;
+};
+
+const VISIBLE_ROWS = 8;
+
+const statusOrder: ConsensusStatus[] = ["conflict", "pending", "agreed-pick", "agreed-reject"];
+
+const statusStyles: Record<ConsensusStatus, string> = {
+  "agreed-pick": "border-emerald-400/40 bg-emerald-500/10 text-emerald-200",
+  "agreed-reject": "border-white/10 bg-white/5 text-slate-300",
+  conflict: "border-amber-400/60 bg-amber-500/15 text-amber-100",
+  pending: "border-blue-400/40 bg-blue-500/10 text-blue-200",
+  unreviewed: "border-white/10 bg-white/5 text-slate-400",
+};
+
+const channelLabels: Record<ChannelStatus, string> = {
+  connecting: "Connecting…",
+  live: "Live",
+  offline: "Offline — reload to reconnect",
+};
+
+export const ReviewPanel = ({
+  photos,
+  reviewer,
+  reviewers,
+  votes,
+  consensus,
+  status,
+  error,
+  onSignIn,
+  onSignOut,
+  onOpen,
+  onShowConflicts,
+  onShortlistAgreed,
+}: ReviewPanelProps) => {
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<ReviewerRole>("lead");
+
+  const photosById = new Map(photos.map((photo) => [photo.id, photo]));
+  const entries = Object.entries(consensus)
+    .filter(([photoId, entry]) => photosById.has(photoId) && entry.status !== "unreviewed")
+    .sort(
+      ([, a], [, b]) =>
+        statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status) || a.agreement - b.agreement,
+    );
+  const counts = Object.fromEntries(
+    statusOrder.map((key) => [key, entries.filter(([, entry]) => entry.status === key).length]),
+  ) as Record<ConsensusStatus, number>;
+  const agreedPicks = entries
+    .filter(([, entry]) => entry.status === "agreed-pick")
+    .map(([photoId]) => photoId);
+
+  return (
+    <div className="rounded-[2.5rem] border border-white/10 bg-slate-950/80 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.3rem] text-slate-400">
+            Team review
+          </p>
+          <h2 className="text-2xl font-semibold text-white">Reviewer consensus</h2>
+        </div>
+        <span
+          className={`rounded-full border px-3 py-2 text-xs font-semibold uppercase tracking-wide ${
+            status === "live"
+              ? "border-emerald-400/40 bg-emerald-500/10 text-emerald-200"
+              : "border-white/10 bg-white/5 text-slate-400"
+          }`}
+        >
+          {channelLabels[status]}
+        </span>
+      </div>
+
+      {reviewer ? (
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm">
+          <p className="text-slate-300">
+            Voting as <span className="font-semibold text-white">{reviewer.name}</span> ·{" "}
+            {reviewerRoleLabels[reviewer.role]}. Shortlisting and rating a frame records your
+            vote.
+          </p>
+          <button
+            type="button"
+            onClick={onSignOut}
+            className="text-xs font-semibold uppercase tracking-wide text-slate-400 hover:text-slate-200"
+          >
+            Sign out
+          </button>
+        </div>
+      ) : (
+        <form
+          className="mt-4 flex flex-wrap items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (name.trim()) onSignIn(name.trim(), role);
+          }}
+        >
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={MAX_REVIEWER_NAME_LENGTH}
+            placeholder="Your name"
+            aria-label="Reviewer name"
+            className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-900 px-3 py-2 text-white placeholder:text-slate-500"
+          />
+          <select
+            value={role}
+            onChange={(event) => setRole(event.target.value as ReviewerRole)}
+            aria-label="Reviewer role"
+            className="rounded-xl border border-white/10 bg-slate-900 px-3 py-2 text-white"
+          >
+            {(Object.keys(reviewerRoleLabels) as ReviewerRole[]).map((key) => (
+              <option key={key} value={key}>
+                {reviewerRoleLabels[key]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!name.trim()}
+            className="rounded-full bg-blue-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-blue-400 disabled:opacity-40"
+          >
+            Sign in to vote
+          </button>
+        </form>
+      )}
+      {error && <p className="mt-3 text-xs text-rose-300">{error}</p>}
+
+      {reviewers.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-2 text-xs">
+          {reviewers.map((item) => (
+            <span
+              key={item.id}
+              title={reviewerRoleLabels[item.role]}
+              className="rounded-full border border-white/10 bg-white/5 px-3 py-1 text-slate-300"
+            >
+              {item.name} · {Object.keys(votes[item.id] ?? {}).length} votes
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+        {statusOrder.map((key) => (
+          <span
+            key={key}
+            className={`rounded-full border px-3 py-2 font-semibold ${statusStyles[key]}`}
+          >
+            {consensusLabels[key]}: {counts[key]}
+          </span>
+        ))}
+        <button
+          type="button"
+          onClick={onShowConflicts}
+          disabled={counts.conflict === 0}
+          className="rounded-full border border-amber-400/70 bg-amber-500/20 px-3 py-2 font-semibold uppercase tracking-wide text-amber-100 transition hover:bg-amber-500/30 disabled:opacity-40"
+        >
+          Show conflicts
+        </button>
+        <button
+          type="button"
+          onClick={() => onShortlistAgreed(agreedPicks)}
+          disabled={agreedPicks.length === 0}
+          className="rounded-full bg-emerald-500 px-3 py-2 font-semibold uppercase tracking-wide text-slate-950 transition hover:bg-emerald-400 disabled:opacity-40"
+        >
+          Shortlist agreed picks
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="mt-6 rounded-3xl border border-dashed border-white/20 bg-white/5 px-6 py-8 text-center text-sm text-slate-400">
+          No votes yet. Votes from every signed-in reviewer show up here as they are cast.
+        </p>
+      ) : (
+        <ul className="mt-6 space-y-2">
+          {entries.slice(0, VISIBLE_ROWS).map(([photoId, entry]) => {
+            const photo = photosById.get(photoId) as Photo;
+            return (
+              <li
+                key={photoId}
+                className={`flex items-center gap-3 rounded-2xl border px-3 py-2 text-sm ${statusStyles[entry.status]}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => onOpen(photoId)}
+                  aria-label={`Open ${photo.title} in the loupe`}
+                  className="h-10 w-14 shrink-0 rounded-lg bg-slate-800 bg-cover bg-center"
+                  style={{ backgroundImage: `url(${photo.thumbnailUrl})` }}
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-semibold text-white">{photo.title}</p>
+                  <p className="text-xs opacity-80">
+                    {consensusLabels[entry.status]} · {Math.round(entry.agreement * 100)}% agree
+                    {entry.averageRating !== null && ` · ★ ${entry.averageRating.toFixed(1)}`}
+                  </p>
+                </div>
+                <div className="flex flex-wrap justify-end gap-1">
+                  {reviewers
+                    .filter((item) => votes[item.id]?.[photoId])
+                    .map((item) => {
+                      const vote = votes[item.id][photoId];
+                      return (
+                        <span
+                          key={item.id}
+                          title={`${item.name}: ${vote.pick ?? "no pick"}${
+                            vote.rating !== null ? `, ${vote.rating}★` : ""
+                          }`}
+                          className={`rounded-full px-2 py-1 text-[0.65rem] font-semibold ${
+                            vote.pick === "pick"
+                              ? "bg-emerald-500/30 text-emerald-100"
+                              : vote.pick === "reject"
+                                ? "bg-rose-500/30 text-rose-100"
+                                : "bg-white/10 text-slate-200"
+                          }`}
+                        >
+                          {reviewerInitials(item.name)}
+                          {vote.rating !== null && ` ${vote.rating}★`}
+                        </span>
+                      );
+                    })}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {entries.length > VISIBLE_ROWS && (
+        <p className="mt-3 text-center text-xs text-slate-400">
+          +{entries.length - VISIBLE_ROWS} more reviewed frames
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import type { ScoreBreakdown } from "@/lib/score-breakdown";
+
+type ScoreBreakdownViewProps = {
+  breakdown: ScoreBreakdown;
+  tone?: "light" | "dark";
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const toneClasses = {
+  light: {
+    muted: "text-slate-500 dark:text-slate-400",
+    strong: "text-slate-700 dark:text-slate-100",
+    track: "bg-slate-100 dark:bg-slate-800",
+    warning: "text-amber-600 dark:text-amber-300",
+    penalty: "text-rose-600 dark:text-rose-300",
+    boost: "text-emerald-600 dark:text-emerald-300",
+  },
+  dark: {
+    muted: "text-slate-400",
+    strong: "text-white",
+    track: "bg-white/10",
+    warning: "text-amber-300",
+    penalty: "text-rose-300",
+    boost: "text-emerald-300",
+  },
+};
+
+export const ScoreBreakdownView = ({ breakdown, tone = "light" }: ScoreBreakdownViewProps) => {
+  const classes = toneClasses[tone];
+  const base = breakdown.components.reduce((acc, component) => acc + component.contribution, 0);
+  const { moods, shots, tags } = breakdown.matches;
+  const matched = [...moods, ...shots, ...tags.map((tag) => `#${tag}`)];
+  const scored = new Set(breakdown.penalties.map((penalty) => penalty.reason));
+  const unscoredMisses = breakdown.misses.filter((miss) => !scored.has(miss));
+
+  return (
+    <div className="space-y-3 text-xs">
+      <ul className="space-y-2">
+        {breakdown.components.map((component) => (
+          <li key={component.key}>
+            <div className="flex items-center justify-between gap-2">
+              <span className={`font-semibold ${classes.strong}`}>{component.label}</span>
+              <span className={classes.muted}>
+                +{(component.contribution * 100).toFixed(1)} pts · signal{" "}
+                {percent(component.signal)} · weight {percent(component.weight)}
+              </span>
+            </div>
+            <div className={`mt-1 h-1.5 overflow-hidden rounded-full ${classes.track}`}>
+              <div
+                className="h-full rounded-full bg-blue-500"
+                style={{ width: base > 0 ? percent(component.contribution / base) : "0%" }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+      {matched.length > 0 && (
+        <p className={classes.muted}>
+          <span className={`font-semibold ${classes.strong}`}>Matches brief:</span>{" "}
+          {matched.join(", ")}
+        </p>
+      )}
+      {unscoredMisses.map((miss) => (
+        <p key={miss} className={classes.warning}>
+          {miss}
+        </p>
+      ))}
+      {breakdown.boosts.map((boost) => (
+        <p key={boost.reason} className={classes.boost}>
+          +{(boost.amount * 100).toFixed(1)} pts · {boost.reason}
+        </p>
+      ))}
+      {breakdown.penalties.map((penalty) => (
+        <p key={penalty.reason} className={classes.penalty}>
+          −{(penalty.amount * 100).toFixed(1)} pts · {penalty.reason}
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Photo } from "@/lib/photo-data";
+import type { ClientProfile } from "@/lib/scoring";
+import {
+  analyzeShortlist,
+  dimensionLabels,
+  type AnalyticsDimension,
+  type AnalyticsWarning,
+} from "@/lib/shortlist-analytics";
+
+type ShortlistAnalyticsPanelProps = {
+  shortlist: Photo[];
+  catalog: Photo[];
+  profile: ClientProfile;
+  extraWarnings?: AnalyticsWarning[];
+  onMatchLook?: () => void;
+};
+
+const dimensions = Object.keys(dimensionLabels) as AnalyticsDimension[];
+
+const percent = (share: number) => `${(share * 100).toFixed(0)}%`;
+
+export const ShortlistAnalyticsPanel = ({
+  shortlist,
+  catalog,
+  profile,
+  extraWarnings = [],
+  onMatchLook,
+}: ShortlistAnalyticsPanelProps) => {
+  const [dimension, setDimension] = useState<AnalyticsDimension>("shotType");
+  const analytics = useMemo(
+    () => analyzeShortlist(shortlist, catalog, profile),
+    [shortlist, catalog, profile],
+  );
+  const { distributions } = analytics;
+  const warnings = [...extraWarnings, ...analytics.warnings];
+  const rows = distributions[dimension];
+  const maxShare = Math.max(0.01, ...rows.flatMap((row) => [row.shortlistShare, row.catalogShare]));
+
+  return (
+    <div className="rounded-[2.5rem] border border-white/10 bg-slate-950/80 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.3rem] text-slate-400">
+            Shortlist analytics
+          </p>
+          <h2 className="text-2xl font-semibold text-white">
+            {shortlist.length === 0
+              ? "Nothing shortlisted yet"
+              : warnings.length === 0
+                ? "Balanced against the brief"
+                : `${warnings.length} things to check before delivery`}
+          </h2>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {dimensions.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setDimension(option)}
+              className={`rounded-full border px-3 py-2 font-semibold uppercase tracking-wide transition ${
+                dimension === option
+                  ? "border-blue-400/70 bg-blue-500/20 text-blue-100"
+                  : "border-white/10 bg-white/5 text-slate-300 hover:border-white/30"
+              }`}
+            >
+              {dimensionLabels[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {warnings.length > 0 && (
+        <ul className="mt-6 space-y-2 text-sm">
+          {warnings.map((warning) => (
+            <li
+              key={warning.id}
+              className={`rounded-2xl border px-4 py-2 ${
+                warning.severity === "error"
+                  ? "border-rose-400/50 bg-rose-500/10 text-rose-100"
+                  : "border-amber-400/40 bg-amber-500/10 text-amber-100"
+              }`}
+            >
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {onMatchLook && (
+        <button
+          type="button"
+          onClick={onMatchLook}
+          className="mt-4 rounded-full border border-white/10 bg-white/5 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-300 transition hover:border-white/30"
+        >
+          Match the look
+          <span className="ml-2 font-normal normal-case tracking-normal text-slate-500">
+            frames that fit the shortlist&apos;s colour
+          </span>
+        </button>
+      )}
+
+      <div className="mt-6 flex gap-4 text-[0.65rem] uppercase tracking-wide text-slate-400">
+        <span className="flex items-center gap-2">
+          <span className="h-2 w-4 rounded-full bg-emerald-400/80" /> Shortlist
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="h-2 w-4 rounded-full bg-slate-500/70" /> Catalog
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="rounded-full border border-blue-400/60 px-2 text-blue-200">brief</span>
+          Client profile target
+        </span>
+      </div>
+      <ul className="mt-4 space-y-3 text-sm">
+        {rows.map((row) => (
+          <li key={row.key} className="grid grid-cols-[9rem_1fr_5rem] items-center gap-3">
+            <span className="flex min-w-0 items-center gap-2">
+              <span className="truncate text-slate-200">
+                {dimension === "tag" ? `#${row.key}` : row.key}
+              </span>
+              {row.isTarget && (
+                <span className="shrink-0 rounded-full border border-blue-400/60 px-2 text-[0.6rem] uppercase tracking-wide text-blue-200">
+                  brief
+                </span>
+              )}
+            </span>
+            <span className="flex flex-col gap-1">
+              <span
+                className="h-2 rounded-full bg-emerald-400/80"
+                style={{ width: `${(row.shortlistShare / maxShare) * 100}%` }}
+              />
+              <span
+                className="h-2 rounded-full bg-slate-500/70"
+                style={{ width: `${(row.catalogShare / maxShare) * 100}%` }}
+              />
+            </span>
+            <span className="text-right text-xs text-slate-400">
+              <span
+                className={
+                  row.isTarget && row.shortlisted === 0 ? "text-rose-300" : "text-emerald-200"
+                }
+              >
+                {row.shortlisted} · {percent(row.shortlistShare)}
+              </span>
+              <br />
+              {row.catalog} · {percent(row.catalogShare)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState, type KeyboardEvent } from "react";
+
+type TagInputProps = {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+};
+
+const MAX_SUGGESTIONS = 8;
+
+const normalizeTag = (value: string) => value.trim().replace(/^#/, "");
+
+export const TagInput = ({ tags, suggestions, onChange, placeholder }: TagInputProps) => {
+  const [draft, setDraft] = useState("");
+  const [highlighted, setHighlighted] = useState(0);
+  const query = normalizeTag(draft).toLowerCase();
+
+  const matches = query
+    ? suggestions
+        .filter((tag) => tag.toLowerCase().includes(query) && !tags.includes(tag))
+        .sort(
+          (a, b) =>
+            Number(!a.toLowerCase().startsWith(query)) - Number(!b.toLowerCase().startsWith(query)),
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft("");
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      addTag(matches[highlighted] ?? draft);
+    } else if (event.key === "ArrowDown" && matches.length > 0) {
+      event.preventDefault();
+      setHighlighted((prev) => (prev + 1) % matches.length);
+    } else if (event.key === "ArrowUp" && matches.length > 0) {
+      event.preventDefault();
+      setHighlighted((prev) => (prev - 1 + matches.length) % matches.length);
+    } else if (event.key === "Backspace" && draft === "" && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap gap-2 rounded-2xl border border-white/10 bg-white/5 p-2 focus-within:border-blue-400/70">
+        {tags.map((tag) => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => onChange(tags.filter((item) => item !== tag))}
+            title="Remove tag"
+            className="rounded-full border border-emerald-400/70 bg-emerald-500/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-emerald-100 transition hover:border-rose-400/70 hover:bg-rose-500/20"
+          >
+            #{tag} ×
+          </button>
+        ))}
+        <input
+          value={draft}
+          onChange={(event) => {
+            setDraft(event.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={tags.length === 0 ? placeholder : undefined}
+          className="min-w-[8rem] flex-1 bg-transparent px-2 py-1 text-sm text-white outline-none"
+        />
+      </div>
+      {matches.length > 0 && (
+        <ul className="absolute inset-x-0 top-full z-10 mt-1 overflow-hidden rounded-2xl border border-white/10 bg-slate-900 text-xs shadow-xl shadow-black/40">
+          {matches.map((tag, index) => (
+            <li key={tag}>
+              <button
+                type="button"
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  addTag(tag);
+                }}
+                className={`w-full px-4 py-2 text-left font-semibold ${
+                  index === highlighted ? "bg-blue-500/20 text-blue-100" : "text-slate-300"
+                }`}
+              >
+                #{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+"use client";
+
+import { useMemo, useRef, useState, type PointerEvent } from "react";
+import type { Photo } from "@/lib/photo-data";
+import {
+  buildHistogram,
+  isUnderRepresented,
+  segmentEvents,
+  type TimeRange,
+} from "@/lib/timeline";
+
+type TimelinePanelProps = {
+  photos: Photo[];
+  selectedIds: Set<string>;
+  range: TimeRange | null;
+  onRangeChange: (range: TimeRange | null) => void;
+};
+
+type Brush = {
+  anchor: number;
+  current: number;
+};
+
+const CHART_WIDTH = 1000;
+const CHART_HEIGHT = 120;
+const BAND_HEIGHT = 10;
+const MIN_BRUSH_FRACTION = 0.01;
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString(undefined, { hour: "numeric", minute: "numeric" });
+
+/**
+ * Capture-time histogram with the shortlist overlaid and auto-detected events
+ * banded on top. Dragging across the chart filters the ranked list to that
+ * window; clicking an event selects its span.
+ */
+export const TimelinePanel = ({ photos, selectedIds, range, onRangeChange }: TimelinePanelProps) => {
+  const [brush, setBrush] = useState<Brush | null>(null);
+  const chartRef = useRef<SVGSVGElement>(null);
+
+  const buckets = useMemo(() => buildHistogram(photos, selectedIds), [photos, selectedIds]);
+  const segments = useMemo(() => segmentEvents(photos, selectedIds), [photos, selectedIds]);
+
+  const shortlistedCount = photos.filter((photo) => selectedIds.has(photo.id)).length;
+  const overallShare = photos.length > 0 ? shortlistedCount / photos.length : 0;
+  const underRepresented = segments.filter((segment) =>
+    isUnderRepresented(segment, overallShare),
+  );
+
+  if (buckets.length === 0) return null;
+
+  const domainStart = buckets[0].start;
+  const domainSpan = buckets[buckets.length - 1].end - domainStart;
+  const maxTotal = Math.max(...buckets.map((bucket) => bucket.total));
+  const toX = (time: number) => ((time - domainStart) / domainSpan) * CHART_WIDTH;
+  const barHeight = (count: number) => (count / maxTotal) * (CHART_HEIGHT - BAND_HEIGHT - 4);
+
+  const timeAt = (event: PointerEvent<SVGSVGElement>) => {
+    const bounds = chartRef.current?.getBoundingClientRect();
+    if (!bounds) return domainStart;
+    const fraction = Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width));
+    return domainStart + fraction * domainSpan;
+  };
+
+  const finishBrush = () => {
+    if (!brush) return;
+    setBrush(null);
+    if (Math.abs(brush.current - brush.anchor) < domainSpan * MIN_BRUSH_FRACTION) {
+      onRangeChange(null);
+      return;
+    }
+    onRangeChange({
+      start: Math.min(brush.anchor, brush.current),
+      end: Math.max(brush.anchor, brush.current),
+    });
+  };
+
+  const highlighted = brush
+    ? { start: Math.min(brush.anchor, brush.current), end: Math.max(brush.anchor, brush.current) }
+    : range;
+
+  return (
+    <div className="rounded-[2.5rem] border border-white/10 bg-slate-950/80 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.3rem] text-slate-400">
+            Shoot timeline
+          </p>
+          <h2 className="text-2xl font-semibold text-white">
+            {segments.length} events · {formatTime(domainStart)} –{" "}
+            {formatTime(domainStart + domainSpan)}
+          </h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-300">
+          {underRepresented.length > 0 && (
+            <span className="rounded-full border border-amber-400/40 bg-amber-500/10 px-3 py-2 text-amber-200">
+              {underRepresented.length} under-represented{" "}
+              {underRepresented.length === 1 ? "event" : "events"}
+            </span>
+          )}
+          {range && (
+            <>
+              <span className="rounded-full border border-blue-400/40 bg-blue-500/10 px-3 py-2 text-blue-200">
+                Showing {formatTime(range.start)} – {formatTime(range.end)}
+              </span>
+              <button
+                type="button"
+                onClick={() => onRangeChange(null)}
+                className="rounded-full border border-white/10 bg-white/5 px-3 py-2 font-semibold uppercase tracking-wide text-slate-300 transition hover:border-white/30"
+              >
+                Clear
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <svg
+        ref={chartRef}
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="mt-6 h-32 w-full cursor-crosshair touch-none select-none"
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          const time = timeAt(event);
+          setBrush({ anchor: time, current: time });
+        }}
+        onPointerMove={(event) => {
+          if (!brush) return;
+          const time = timeAt(event);
+          setBrush((prev) => (prev ? { ...prev, current: time } : prev));
+        }}
+        onPointerUp={finishBrush}
+        onPointerCancel={() => setBrush(null)}
+      >
+        {segments.map((segment, index) => (
+          <rect
+            key={segment.id}
+            x={toX(segment.start)}
+            y={0}
+            width={Math.max(2, toX(segment.end) - toX(segment.start))}
+            height={BAND_HEIGHT - 3}
+            rx={3}
+            className={
+              isUnderRepresented(segment, overallShare)
+                ? "fill-amber-400/70"
+                : index % 2 === 0
+                  ? "fill-slate-500/60"
+                  : "fill-slate-400/40"
+            }
+          />
+        ))}
+        {buckets.map((bucket) => {
+          const x = toX(bucket.start) + 1;
+          const width = Math.max(1, toX(bucket.end) - toX(bucket.start) - 2);
+          return (
+            <g key={bucket.start}>
+              <title>
+                {formatTime(bucket.start)}: {bucket.shortlisted} of {bucket.total} shortlisted
+              </title>
+              <rect
+                x={x}
+                y={CHART_HEIGHT - barHeight(bucket.total)}
+                width={width}
+                height={barHeight(bucket.total)}
+                className="fill-slate-600/70"
+              />
+              <rect
+                x={x}
+                y={CHART_HEIGHT - barHeight(bucket.shortlisted)}
+                width={width}
+                height={barHeight(bucket.shortlisted)}
+                className="fill-emerald-400/80"
+              />
+            </g>
+          );
+        })}
+        {highlighted && (
+          <rect
+            x={toX(highlighted.start)}
+            y={0}
+            width={Math.max(1, toX(highlighted.end) - toX(highlighted.start))}
+            height={CHART_HEIGHT}
+            className="fill-blue-400/20 stroke-blue-300/70"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      <div className="mt-2 flex justify-between text-[0.65rem] uppercase tracking-wide text-slate-500">
+        <span>{formatTime(domainStart)}</span>
+        <span>Drag to filter · bars show shortlisted of total</span>
+        <span>{formatTime(domainStart + domainSpan)}</span>
+      </div>
+
+      <ul className="mt-6 grid gap-3 text-sm md:grid-cols-2 xl:grid-cols-3">
+        {segments.map((segment) => {
+          const isActive = range?.start === segment.start && range?.end === segment.end;
+          const flagged = isUnderRepresented(segment, overallShare);
+          return (
+            <li key={segment.id}>
+              <button
+                type="button"
+                onClick={() =>
+                  onRangeChange(isActive ? null : { start: segment.start, end: segment.end })
+                }
+                aria-pressed={isActive}
+                className={`flex w-full items-center justify-between gap-3 rounded-2xl border px-4 py-3 text-left transition ${
+                  isActive
+                    ? "border-blue-400/70 bg-blue-500/20"
+                    : flagged
+                      ? "border-amber-400/40 bg-amber-500/10 hover:border-amber-300/70"
+                      : "border-white/10 bg-white/5 hover:border-white/30"
+                }`}
+              >
+                <span className="min-w-0">
+                  <span className="block truncate font-semibold text-white">
+                    {segment.location}
+                  </span>
+                  <span className="block text-xs text-slate-400">
+                    {formatTime(segment.start)} – {formatTime(segment.end)}
+                    {flagged && " · under-represented"}
+                  </span>
+                </span>
+                <span
+                  className={`shrink-0 text-xs font-semibold ${
+                    flagged ? "text-amber-200" : "text-emerald-200"
+                  }`}
+                >
+                  {segment.shortlisted} / {segment.photoIds.length}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
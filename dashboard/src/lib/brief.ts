@@ -0,0 +1,133 @@
+import { applyBurstLimit, groupBursts } from "@/lib/bursts";
+import type { Photo } from "@/lib/photo-data";
+import { parseProfile, parseWeights, type CurationState } from "@/lib/projects";
+import { applyRejectMode } from "@/lib/reject-flags";
+import { applyTagBoosts } from "@/lib/score-breakdown";
+import type { ClientProfile, ScoringWeights } from "@/lib/scoring";
+import { defaultModelState, modelChoice, rankWithModel } from "@/lib/scoring-models";
+import { defaultWeights } from "@/lib/weights";
+
+export type BriefPreset = {
+  id: string;
+  name: string;
+  description: string;
+  profile: ClientProfile;
+  weights: ScoringWeights;
+};
+
+export type BriefPresetFile = {
+  version: typeof BRIEF_PRESET_FILE_VERSION;
+  presets: BriefPreset[];
+};
+
+export const BRIEF_PRESET_FILE_VERSION = 1;
+
+export const defaultProfile: ClientProfile = {
+  preferredMoods: ["Joyful", "Romantic"],
+  requiredShots: ["Portrait", "Candid"],
+  highlightTags: ["storytelling", "candids", "laughs"],
+  minimumFaces: 1,
+};
+
+export const builtInPresets: BriefPreset[] = [
+  {
+    id: "editorial-wedding",
+    name: "Editorial wedding",
+    description: "Emotional candids and portraits that tell the story of the day.",
+    profile: defaultProfile,
+    weights: defaultWeights,
+  },
+  {
+    id: "corporate-headshots",
+    name: "Corporate headshots",
+    description: "Tack-sharp single portraits with a confident, approachable feel.",
+    profile: {
+      preferredMoods: ["Confident", "Calm"],
+      requiredShots: ["Portrait"],
+      highlightTags: ["headshot", "eye-contact"],
+      minimumFaces: 1,
+    },
+    weights: { technical: 60, storytelling: 15, clientAlignment: 25 },
+  },
+  {
+    id: "family-session",
+    name: "Family session",
+    description: "Group coverage first, then playful in-between moments.",
+    profile: {
+      preferredMoods: ["Joyful", "Playful"],
+      requiredShots: ["Group", "Candid"],
+      highlightTags: ["laughs", "candids"],
+      minimumFaces: 2,
+    },
+    weights: { technical: 30, storytelling: 40, clientAlignment: 30 },
+  },
+];
+
+export const isBuiltInPreset = (id: string) => builtInPresets.some((preset) => preset.id === id);
+
+export const presetIdFor = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const parseBriefPreset = (value: unknown): BriefPreset | undefined => {
+  if (typeof value !== "object" || value === null) return undefined;
+  const { name, description, profile, weights } = value as Record<string, unknown>;
+  if (typeof name !== "string" || !presetIdFor(name)) return undefined;
+  const parsedProfile = parseProfile(profile);
+  const parsedWeights = parseWeights(weights);
+  if (!parsedProfile || !parsedWeights) return undefined;
+  return {
+    id: presetIdFor(name),
+    name: name.trim(),
+    description: typeof description === "string" ? description : "",
+    profile: parsedProfile,
+    weights: parsedWeights,
+  };
+};
+
+/**
+ * Reads a shared preset file. Accepts the exported `{ version, presets }`
+ * document or a bare preset; returns undefined if any preset is malformed.
+ */
+export const parseBriefPresetFile = (value: unknown): BriefPreset[] | undefined => {
+  if (typeof value !== "object" || value === null) return undefined;
+  const { version, presets } = value as Record<string, unknown>;
+  if (version === undefined) {
+    const preset = parseBriefPreset(value);
+    return preset ? [preset] : undefined;
+  }
+  if (version !== BRIEF_PRESET_FILE_VERSION || !Array.isArray(presets)) return undefined;
+  const parsed = presets.map(parseBriefPreset);
+  return parsed.every((preset) => preset !== undefined) ? (parsed as BriefPreset[]) : undefined;
+};
+
+export const toBriefPresetFile = (presets: BriefPreset[]): BriefPresetFile => ({
+  version: BRIEF_PRESET_FILE_VERSION,
+  presets,
+});
+
+/**
+ * The ranking a project's exports use: the same model, boosts, reject mode
+ * and burst limit the photographer saw on the dashboard, so delivery scores
+ * and XMP stars follow that order and dropped frames stay dropped.
+ */
+export const rankWithCuration = (photos: Photo[], curation: CurationState | null) => {
+  const rankings = applyRejectMode(
+    applyTagBoosts(
+      rankWithModel(
+        photos,
+        modelChoice(
+          curation?.scoringModel ?? defaultModelState,
+          curation?.weights ?? defaultWeights,
+        ),
+        curation?.profile ?? defaultProfile,
+      ),
+      curation?.tagBoosts ?? {},
+    ),
+    curation?.rejectMode ?? "off",
+  );
+  const burstLimit = curation?.burstLimit ?? null;
+  return burstLimit === null ? rankings : applyBurstLimit(rankings, groupBursts(photos), burstLimit);
+};
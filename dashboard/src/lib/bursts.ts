@@ -0,0 +1,134 @@
+import type { Photo } from "@/lib/photo-data";
+import { photoAnalysis } from "@/lib/photo-metrics";
+import { withPenalty, type ExplainedPhoto } from "@/lib/score-breakdown";
+import type { RankedPhoto } from "@/lib/scoring";
+
+export type BurstGroup = {
+  id: string;
+  photoIds: string[];
+};
+
+export type BurstIndex = {
+  groups: BurstGroup[];
+  groupOf: Map<string, string>;
+};
+
+export type BurstOptions = {
+  maxGapSeconds: number;
+  maxHashDistance: number;
+};
+
+export type StackedPhoto<T extends RankedPhoto = RankedPhoto> = T & {
+  burstId: string;
+  burstSize: number;
+};
+
+export const defaultBurstOptions: BurstOptions = {
+  maxGapSeconds: 4,
+  maxHashDistance: 12,
+};
+
+const BURST_PENALTY = 0.12;
+
+const bitCounts = Array.from({ length: 16 }, (_, value) =>
+  [1, 2, 4, 8].reduce((count, bit) => count + (value & bit ? 1 : 0), 0),
+);
+
+export const hammingDistance = (a: string, b: string) => {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+  let distance = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    distance += bitCounts[parseInt(a[index], 16) ^ parseInt(b[index], 16)];
+  }
+  return distance;
+};
+
+const looksAlike = (a: Photo, b: Photo, maxHashDistance: number) => {
+  const hashA = photoAnalysis(a).perceptualHash;
+  const hashB = photoAnalysis(b).perceptualHash;
+  if (!hashA || !hashB) return true;
+  return hammingDistance(hashA, hashB) <= maxHashDistance;
+};
+
+/**
+ * Groups frames shot in quick succession that also look alike. Frames are
+ * walked in capture order and join the open burst when they follow its last
+ * frame within `maxGapSeconds` and match any member's perceptual hash; frames
+ * without a hash are grouped on timing alone.
+ */
+export const groupBursts = (
+  photos: Photo[],
+  { maxGapSeconds, maxHashDistance }: BurstOptions = defaultBurstOptions,
+): BurstIndex => {
+  const ordered = [...photos].sort(
+    (a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime(),
+  );
+  const groups: BurstGroup[] = [];
+  const groupOf = new Map<string, string>();
+  let current: Photo[] = [];
+
+  const closeGroup = () => {
+    if (current.length === 0) return;
+    const group = { id: `burst-${current[0].id}`, photoIds: current.map((photo) => photo.id) };
+    groups.push(group);
+    group.photoIds.forEach((id) => groupOf.set(id, group.id));
+    current = [];
+  };
+
+  for (const photo of ordered) {
+    const previous = current[current.length - 1];
+    const gap = previous
+      ? (new Date(photo.capturedAt).getTime() - new Date(previous.capturedAt).getTime()) / 1000
+      : Number.POSITIVE_INFINITY;
+    const joins =
+      gap <= maxGapSeconds && current.some((member) => looksAlike(member, photo, maxHashDistance));
+    if (!joins) closeGroup();
+    current.push(photo);
+  }
+  closeGroup();
+
+  return { groups, groupOf };
+};
+
+/**
+ * Re-ranks so that only the best `maxPerBurst` frames of a burst keep their
+ * score; each additional frame from the same burst loses a growing penalty.
+ */
+export const applyBurstLimit = <T extends ExplainedPhoto>(
+  rankings: T[],
+  index: BurstIndex,
+  maxPerBurst: number,
+): T[] => {
+  const picked = new Map<string, number>();
+  return rankings
+    .map((entry) => {
+      const burstId = index.groupOf.get(entry.photo.id) ?? entry.photo.id;
+      const position = (picked.get(burstId) ?? 0) + 1;
+      picked.set(burstId, position);
+      const excess = position - maxPerBurst;
+      return excess > 0
+        ? withPenalty(entry, {
+            reason: `Frame ${position} of its burst (limit ${maxPerBurst})`,
+            amount: BURST_PENALTY * excess,
+          })
+        : entry;
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+/** Keeps the highest-ranked frame of each burst, tagged with the burst size. */
+export const stackBursts = <T extends RankedPhoto>(
+  rankings: T[],
+  index: BurstIndex,
+): StackedPhoto<T>[] => {
+  const sizes = new Map(index.groups.map((group) => [group.id, group.photoIds.length]));
+  const seen = new Set<string>();
+  const stacked: StackedPhoto<T>[] = [];
+  for (const entry of rankings) {
+    const burstId = index.groupOf.get(entry.photo.id) ?? entry.photo.id;
+    if (seen.has(burstId)) continue;
+    seen.add(burstId);
+    stacked.push({ ...entry, burstId, burstSize: sizes.get(burstId) ?? 1 });
+  }
+  return stacked;
+};
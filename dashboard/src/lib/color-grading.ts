@@ -0,0 +1,106 @@
+import type { Photo } from "@/lib/photo-data";
+import { analyzedMetrics, photoAnalysis, type ColorMetrics } from "@/lib/photo-metrics";
+
+export type LookDimension = keyof ColorMetrics;
+
+/** Where a frame sits against a reference look, e.g. "warmer" or "more muted". */
+export type LookDeviation = {
+  dimension: LookDimension;
+  direction: string;
+  difference: number;
+};
+
+export type LookOutlier = {
+  photo: Photo;
+  deviations: LookDeviation[];
+};
+
+/** How far a frame may drift from a look and still match it. */
+const lookTolerance: ColorMetrics = {
+  warmth: 0.12,
+  tint: 0.1,
+  saturation: 0.12,
+};
+
+const directionLabels: Record<LookDimension, [string, string]> = {
+  warmth: ["warmer", "cooler"],
+  tint: ["more magenta", "greener"],
+  saturation: ["more saturated", "more muted"],
+};
+
+const OUTLIER_FACTOR = 1.75;
+const MIN_LOOK_FRAMES = 4;
+const dimensions = Object.keys(lookTolerance) as LookDimension[];
+
+/** Colour metrics of an analysed frame; undefined for frames ingested before colour analysis. */
+export const colorOf = (photo: Photo): ColorMetrics | undefined => {
+  const { warmth, tint, saturation } = analyzedMetrics(photo);
+  return warmth === undefined || tint === undefined || saturation === undefined
+    ? undefined
+    : { warmth, tint, saturation };
+};
+
+export const paletteOf = (photo: Photo) => photoAnalysis(photo).palette ?? [];
+
+export const describeLook = ({ warmth, saturation }: ColorMetrics) => {
+  const balance =
+    warmth > lookTolerance.warmth ? "Warm" : warmth < -lookTolerance.warmth ? "Cool" : "Neutral";
+  return `${balance} · ${(saturation * 100).toFixed(0)}% saturation`;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * The shared look of a set of frames: the per-dimension median, so one
+ * stray tungsten frame doesn't drag the reference with it. Null when none
+ * of the frames has colour metrics.
+ */
+export const medianLook = (photos: Photo[]): ColorMetrics | null => {
+  const colors = photos.flatMap((photo) => colorOf(photo) ?? []);
+  if (colors.length === 0) return null;
+  return {
+    warmth: median(colors.map((color) => color.warmth)),
+    tint: median(colors.map((color) => color.tint)),
+    saturation: median(colors.map((color) => color.saturation)),
+  };
+};
+
+/** Dimensions on which `color` is further from `reference` than the tolerance × `scale`. */
+export const lookDeviations = (
+  color: ColorMetrics,
+  reference: ColorMetrics,
+  scale = 1,
+): LookDeviation[] =>
+  dimensions.flatMap((dimension) => {
+    const difference = color[dimension] - reference[dimension];
+    if (Math.abs(difference) <= lookTolerance[dimension] * scale) return [];
+    const [above, below] = directionLabels[dimension];
+    return [{ dimension, direction: difference > 0 ? above : below, difference }];
+  });
+
+/** The "match the look" test: colour-analysed and within tolerance on every dimension. */
+export const matchesLook = (photo: Photo, reference: ColorMetrics) => {
+  const color = colorOf(photo);
+  return color !== undefined && lookDeviations(color, reference).length === 0;
+};
+
+/**
+ * Frames that clearly break from the rest of the set. Each is judged against
+ * the median of the other frames, and only well past the matching tolerance,
+ * so a gallery that drifts gently through golden hour isn't flagged.
+ */
+export const findLookOutliers = (photos: Photo[]): LookOutlier[] => {
+  const measured = photos.filter((photo) => colorOf(photo) !== undefined);
+  if (measured.length < MIN_LOOK_FRAMES) return [];
+  return measured.flatMap((photo) => {
+    const reference = medianLook(measured.filter((other) => other.id !== photo.id));
+    const color = colorOf(photo);
+    if (!reference || !color) return [];
+    const deviations = lookDeviations(color, reference, OUTLIER_FACTOR);
+    return deviations.length > 0 ? [{ photo, deviations }] : [];
+  });
+};
@@ -0,0 +1,113 @@
+import type { Photo } from "@/lib/photo-data";
+import type { RankedPhoto } from "@/lib/scoring";
+
+export type CoverageConstraints = {
+  targetSize: number;
+  requiredShots: string[];
+  minPerRequiredShot: number;
+  locations: string[];
+  maxPerMood: number | null;
+};
+
+export type CoverageItem = {
+  kind: "shot" | "location" | "mood";
+  key: string;
+  count: number;
+  limit: number;
+  satisfied: boolean;
+};
+
+export type CoveragePlan = {
+  photoIds: string[];
+  totalScore: number;
+  unmet: CoverageItem[];
+};
+
+const countBy = (photos: Photo[], key: (photo: Photo) => string) => {
+  const counts = new Map<string, number>();
+  photos.forEach((photo) => counts.set(key(photo), (counts.get(key(photo)) ?? 0) + 1));
+  return counts;
+};
+
+export const checkCoverage = (
+  photos: Photo[],
+  { requiredShots, minPerRequiredShot, locations, maxPerMood }: CoverageConstraints,
+): CoverageItem[] => {
+  const shots = countBy(photos, (photo) => photo.shotType);
+  const places = countBy(photos, (photo) => photo.location);
+  const moods = countBy(photos, (photo) => photo.mood);
+
+  const items: CoverageItem[] = [
+    ...requiredShots.map((key) => {
+      const count = shots.get(key) ?? 0;
+      const satisfied = count >= minPerRequiredShot;
+      return { kind: "shot" as const, key, count, limit: minPerRequiredShot, satisfied };
+    }),
+    ...locations.map((key) => {
+      const count = places.get(key) ?? 0;
+      return { kind: "location" as const, key, count, limit: 1, satisfied: count >= 1 };
+    }),
+  ];
+
+  if (maxPerMood !== null) {
+    moods.forEach((count, key) => {
+      items.push({ kind: "mood", key, count, limit: maxPerMood, satisfied: count <= maxPerMood });
+    });
+  }
+  return items;
+};
+
+/**
+ * Picks `targetSize` frames that maximise total score while covering the
+ * brief. Works greedily in priority order — the best K frames of every
+ * required shot type, then the best frame of each location not yet covered,
+ * then the highest remaining scores — never exceeding the per-mood cap.
+ * Constraints that cannot be met within the target size come back in `unmet`.
+ */
+export const planCoverage = (
+  rankings: RankedPhoto[],
+  constraints: CoverageConstraints,
+): CoveragePlan => {
+  const { targetSize, requiredShots, minPerRequiredShot, locations, maxPerMood } = constraints;
+  const picked = new Map<string, RankedPhoto>();
+  const moodCounts = new Map<string, number>();
+
+  const tryPick = (entry: RankedPhoto) => {
+    if (picked.size >= targetSize || picked.has(entry.photo.id)) return false;
+    const moodCount = moodCounts.get(entry.photo.mood) ?? 0;
+    if (maxPerMood !== null && moodCount >= maxPerMood) return false;
+    picked.set(entry.photo.id, entry);
+    moodCounts.set(entry.photo.mood, moodCount + 1);
+    return true;
+  };
+
+  for (const shot of requiredShots) {
+    let count = Array.from(picked.values()).filter(({ photo }) => photo.shotType === shot).length;
+    for (const entry of rankings) {
+      if (count >= minPerRequiredShot) break;
+      if (entry.photo.shotType === shot && tryPick(entry)) count += 1;
+    }
+  }
+
+  for (const location of locations) {
+    if (Array.from(picked.values()).some(({ photo }) => photo.location === location)) continue;
+    for (const entry of rankings) {
+      if (entry.photo.location === location && tryPick(entry)) break;
+    }
+  }
+
+  for (const entry of rankings) {
+    if (picked.size >= targetSize) break;
+    tryPick(entry);
+  }
+
+  const chosen = Array.from(picked.values()).sort((a, b) => b.score - a.score);
+  return {
+    photoIds: chosen.map(({ photo }) => photo.id),
+    totalScore: chosen.reduce((acc, { score }) => acc + score, 0),
+    unmet: checkCoverage(
+      chosen.map(({ photo }) => photo),
+      constraints,
+    ).filter((item) => !item.satisfied),
+  };
+};
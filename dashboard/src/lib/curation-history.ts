@@ -0,0 +1,253 @@
+import { csvCell } from "@/lib/delivery";
+import { parseProfile, parseScoringModel, parseTagBoosts, parseWeights } from "@/lib/projects";
+import type { ClientProfile, ScoringWeights } from "@/lib/scoring";
+import type { ScoringModelState } from "@/lib/scoring-models";
+
+/**
+ * One reversible edit to the curation state. Every change carries enough of
+ * the state before and after to be replayed in either direction.
+ */
+export type CurationChange =
+  | { type: "shortlist"; added: string[]; removed: string[] }
+  | { type: "rating"; photoId: string; before: number | null; after: number | null }
+  | { type: "weights"; before: ScoringWeights; after: ScoringWeights }
+  | { type: "profile"; before: ClientProfile; after: ClientProfile }
+  | { type: "tag-boosts"; before: Record<string, number>; after: Record<string, number> }
+  | { type: "scoring-model"; before: ScoringModelState; after: ScoringModelState };
+
+/**
+ * A user action as the history panel shows it. Consecutive commands with the
+ * same `mergeKey` (one slider drag) collapse into a single undo step.
+ */
+export type CurationCommand = {
+  id: string;
+  label: string;
+  at: string;
+  changes: CurationChange[];
+  mergeKey?: string;
+};
+
+export type CurationHistory = {
+  past: CurationCommand[];
+  future: CurationCommand[];
+};
+
+export type AuditAction = "do" | "undo" | "redo";
+
+export type AuditEntry = {
+  id: string;
+  at: string;
+  actor: string | null;
+  action: AuditAction;
+  label: string;
+  changes: CurationChange[];
+};
+
+/** What the browser reports; the server stamps the id, actor and time. */
+export type AuditEntryInput = Omit<AuditEntry, "id" | "actor" | "at">;
+
+export const MAX_HISTORY = 100;
+
+const MERGE_WINDOW_MS = 1500;
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  do: "Changed",
+  undo: "Undid",
+  redo: "Redid",
+};
+
+export const emptyHistory: CurationHistory = { past: [], future: [] };
+
+export const invertChange = (change: CurationChange): CurationChange => {
+  switch (change.type) {
+    case "shortlist":
+      return { type: "shortlist", added: change.removed, removed: change.added };
+    case "rating":
+      return { ...change, before: change.after, after: change.before };
+    case "weights":
+      return { ...change, before: change.after, after: change.before };
+    case "profile":
+      return { ...change, before: change.after, after: change.before };
+    case "tag-boosts":
+      return { ...change, before: change.after, after: change.before };
+    case "scoring-model":
+      return { ...change, before: change.after, after: change.before };
+  }
+};
+
+/** The changes that revert a command, in reverse order. */
+export const invertCommand = (command: CurationCommand) =>
+  [...command.changes].reverse().map(invertChange);
+
+/** Diffs the current shortlist against the one an action wants to leave behind. */
+export const shortlistChange = (
+  current: Set<string>,
+  next: Iterable<string>,
+): Extract<CurationChange, { type: "shortlist" }> => {
+  const nextIds = new Set(next);
+  return {
+    type: "shortlist",
+    added: Array.from(nextIds).filter((id) => !current.has(id)),
+    removed: Array.from(current).filter((id) => !nextIds.has(id)),
+  };
+};
+
+export const isEmptyChange = (change: CurationChange) => {
+  switch (change.type) {
+    case "shortlist":
+      return change.added.length === 0 && change.removed.length === 0;
+    case "rating":
+      return change.before === change.after;
+    default:
+      return JSON.stringify(change.before) === JSON.stringify(change.after);
+  }
+};
+
+export const applyShortlistChange = (
+  selectedIds: Set<string>,
+  { added, removed }: Extract<CurationChange, { type: "shortlist" }>,
+) => {
+  const next = new Set(selectedIds);
+  removed.forEach((id) => next.delete(id));
+  added.forEach((id) => next.add(id));
+  return next;
+};
+
+export const withRating = (
+  ratings: Record<string, number>,
+  photoId: string,
+  rating: number | null,
+) => {
+  const next = { ...ratings };
+  if (rating === null) {
+    delete next[photoId];
+  } else {
+    next[photoId] = rating;
+  }
+  return next;
+};
+
+const mergeChanges = (earlier: CurationChange[], later: CurationChange[]) =>
+  later.map((change, index) => {
+    const first = earlier[index];
+    return first && first.type === change.type && "before" in first
+      ? ({ ...change, before: first.before } as CurationChange)
+      : change;
+  });
+
+/**
+ * Records a new command and drops the redo branch. A command that continues
+ * the previous one (same merge key, within a moment) extends it instead.
+ */
+export const pushCommand = (
+  history: CurationHistory,
+  command: CurationCommand,
+): CurationHistory => {
+  const last = history.past[history.past.length - 1];
+  const continues =
+    last !== undefined &&
+    command.mergeKey !== undefined &&
+    last.mergeKey === command.mergeKey &&
+    Date.parse(command.at) - Date.parse(last.at) < MERGE_WINDOW_MS;
+  const entry = continues
+    ? { ...command, id: last.id, changes: mergeChanges(last.changes, command.changes) }
+    : command;
+  const past = continues ? [...history.past.slice(0, -1), entry] : [...history.past, entry];
+  return { past: past.slice(-MAX_HISTORY), future: [] };
+};
+
+export const undoHistory = ({ past, future }: CurationHistory): CurationHistory =>
+  past.length === 0
+    ? { past, future }
+    : { past: past.slice(0, -1), future: [past[past.length - 1], ...future] };
+
+export const redoHistory = ({ past, future }: CurationHistory): CurationHistory =>
+  future.length === 0
+    ? { past, future }
+    : { past: [...past, future[0]], future: future.slice(1) };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isRatingValue = (value: unknown) =>
+  value === null ||
+  (typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 5);
+
+/** Checks the full shape of a change, so a malformed one can't poison the append-only log. */
+export const isCurationChange = (value: unknown): value is CurationChange => {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case "shortlist":
+      return isStringArray(value.added) && isStringArray(value.removed);
+    case "rating":
+      return (
+        typeof value.photoId === "string" && isRatingValue(value.before) && isRatingValue(value.after)
+      );
+    case "weights":
+      return parseWeights(value.before) !== undefined && parseWeights(value.after) !== undefined;
+    case "profile":
+      return parseProfile(value.before) !== undefined && parseProfile(value.after) !== undefined;
+    case "tag-boosts":
+      return parseTagBoosts(value.before) !== undefined && parseTagBoosts(value.after) !== undefined;
+    case "scoring-model":
+      return (
+        parseScoringModel(value.before) !== undefined &&
+        parseScoringModel(value.after) !== undefined
+      );
+    default:
+      return false;
+  }
+};
+
+const isAuditAction = (value: unknown): value is AuditAction =>
+  typeof value === "string" && Object.hasOwn(auditActionLabels, value);
+
+export const parseAuditEntries = (value: unknown): AuditEntryInput[] | undefined => {
+  if (!isRecord(value) || !Array.isArray(value.entries)) return undefined;
+  const entries: AuditEntryInput[] = [];
+  for (const entry of value.entries) {
+    if (
+      !isRecord(entry) ||
+      !isAuditAction(entry.action) ||
+      typeof entry.label !== "string" ||
+      !Array.isArray(entry.changes) ||
+      !entry.changes.every(isCurationChange)
+    ) {
+      return undefined;
+    }
+    entries.push({ action: entry.action, label: entry.label, changes: entry.changes });
+  }
+  return entries;
+};
+
+const summarizeChange = (change: CurationChange) => {
+  switch (change.type) {
+    case "shortlist":
+      return [
+        change.added.length > 0 ? `+${change.added.join(" +")}` : "",
+        change.removed.length > 0 ? `-${change.removed.join(" -")}` : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+    case "rating":
+      return `${change.photoId}: ${change.before ?? "unrated"} → ${change.after ?? "unrated"}`;
+    default:
+      return `${change.type}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`;
+  }
+};
+
+/** Spreadsheet-friendly export of the audit log, one row per recorded action. */
+export const auditLogToCsv = (entries: AuditEntry[]) => {
+  const header = ["time", "actor", "action", "summary", "details"];
+  const rows = entries.map((entry) => [
+    entry.at,
+    entry.actor ?? "Signed-out user",
+    auditActionLabels[entry.action],
+    entry.label,
+    entry.changes.map(summarizeChange).join(" | "),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+};
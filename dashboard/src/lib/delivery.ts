@@ -0,0 +1,138 @@
+import type { Photo } from "@/lib/photo-data";
+
+export type DeliveryOptions = {
+  naming: string;
+  webEdge: number | null;
+  includeOriginals: boolean;
+};
+
+export type DeliveryNameContext = {
+  index: number;
+  total: number;
+  project: string;
+  photo: Photo;
+  score: number;
+};
+
+export type ManifestFrame = {
+  index: number;
+  id: string;
+  title: string;
+  originalFile: string | null;
+  webFile: string | null;
+  score: number;
+  shotType: string;
+  mood: string;
+  location: string;
+  capturedAt: string;
+  tags: string[];
+};
+
+export const namingTokens = [
+  "{index}",
+  "{title}",
+  "{date}",
+  "{time}",
+  "{shotType}",
+  "{location}",
+  "{score}",
+  "{project}",
+] as const;
+
+export const webEdgeOptions = [null, 1600, 2048, 3000];
+
+export const defaultDeliveryOptions: DeliveryOptions = {
+  naming: "{project}-{index}-{title}",
+  webEdge: 2048,
+  includeOriginals: true,
+};
+
+/** Decomposes accents and drops the marks, so "Müller" becomes "Muller" rather than "Mu-ller". */
+const sanitizeSegment = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/\p{M}+/gu, "")
+    .replace(/[^\w.-]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const formatDeliveryName = (
+  template: string,
+  { index, total, project, photo, score }: DeliveryNameContext,
+) => {
+  const values: Record<string, string> = {
+    index: String(index).padStart(Math.max(3, String(total).length), "0"),
+    title: photo.title,
+    date: photo.capturedAt.slice(0, 10),
+    time: photo.capturedAt.slice(11, 19).replace(/:/g, ""),
+    shotType: photo.shotType,
+    location: photo.location,
+    score: String(Math.round(score * 100)),
+    project,
+  };
+  const name = template.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token);
+  return sanitizeSegment(name) || `frame-${values.index}`;
+};
+
+const MAX_WEB_EDGE = 6000;
+
+const parseWebEdge = (value: string | null) => {
+  if (value === "none") return null;
+  const edge = Number(value);
+  return Number.isInteger(edge) && edge > 0 && edge <= MAX_WEB_EDGE
+    ? edge
+    : defaultDeliveryOptions.webEdge;
+};
+
+export const parseDeliveryOptions = (params: URLSearchParams): DeliveryOptions => ({
+  naming: params.get("naming")?.trim() || defaultDeliveryOptions.naming,
+  webEdge: parseWebEdge(params.get("webEdge")),
+  includeOriginals: params.get("originals") !== "0",
+});
+
+export const deliveryQuery = ({ naming, webEdge, includeOriginals }: DeliveryOptions) =>
+  new URLSearchParams({
+    naming,
+    webEdge: webEdge === null ? "none" : String(webEdge),
+    originals: includeOriginals ? "1" : "0",
+  }).toString();
+
+/**
+ * Quotes a CSV cell. Text starting with `=`, `+`, `-` or `@` is prefixed with
+ * `'` so spreadsheets show a reviewer name or tag as text instead of running it.
+ */
+export const csvCell = (value: string | number | null) => {
+  const raw = value === null ? "" : String(value);
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const manifestToCsv = (frames: ManifestFrame[]) => {
+  const header = [
+    "index",
+    "id",
+    "title",
+    "original_file",
+    "web_file",
+    "score",
+    "shot_type",
+    "mood",
+    "location",
+    "captured_at",
+    "tags",
+  ];
+  const rows = frames.map((frame) => [
+    frame.index,
+    frame.id,
+    frame.title,
+    frame.originalFile,
+    frame.webFile,
+    frame.score.toFixed(3),
+    frame.shotType,
+    frame.mood,
+    frame.location,
+    frame.capturedAt,
+    frame.tags.join("; "),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+};
@@ -0,0 +1,135 @@
+import type { Photo } from "@/lib/photo-data";
+import { photoAnalysis } from "@/lib/photo-metrics";
+
+/** Face bounds as fractions of the (EXIF-rotated) frame. */
+export type FaceBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * `eyesOpen` is the probability both eyes are open (null without an eye-state
+ * model) and `sharpness` the 0–1 focus score of the face region alone.
+ */
+export type DetectedFace = {
+  box: FaceBox;
+  score: number;
+  personId: string | null;
+  eyesOpen?: number | null;
+  sharpness?: number;
+};
+
+export type Person = {
+  id: string;
+  label: string;
+  frameCount: number;
+  coverPhoto: Photo;
+  coverBox: FaceBox;
+};
+
+export type PeopleRuleMode = "together" | "each";
+
+/**
+ * A brief requirement on who appears in the shortlist: `together` needs
+ * `minFrames` frames showing every listed person at once, `each` needs
+ * `minFrames` frames of every person individually.
+ */
+export type PeopleRule = {
+  id: string;
+  personIds: string[];
+  mode: PeopleRuleMode;
+  minFrames: number;
+};
+
+export type PeopleRuleCheck = {
+  rule: PeopleRule;
+  counts: Record<string, number>;
+  satisfied: boolean;
+  message: string;
+};
+
+export const detectedFaces = (photo: Photo): DetectedFace[] =>
+  photoAnalysis(photo).detectedFaces ?? [];
+
+export const peopleIn = (photo: Photo) =>
+  Array.from(
+    new Set(
+      detectedFaces(photo)
+        .map((face) => face.personId)
+        .filter((id): id is string => id !== null),
+    ),
+  );
+
+/**
+ * Lists everyone recognised in the shoot, most photographed first. The
+ * cover is the largest detection of that person, which is usually the
+ * sharpest crop for an avatar.
+ */
+export const buildPeople = (photos: Photo[], names: Record<string, string>): Person[] => {
+  const people = new Map<string, Omit<Person, "label">>();
+  photos.forEach((photo) => {
+    const counted = new Set<string>();
+    detectedFaces(photo).forEach((face) => {
+      if (face.personId === null) return;
+      const area = face.box.width * face.box.height;
+      const current = people.get(face.personId);
+      const frameCount = (current?.frameCount ?? 0) + (counted.has(face.personId) ? 0 : 1);
+      const isLarger = !current || area > current.coverBox.width * current.coverBox.height;
+      counted.add(face.personId);
+      people.set(face.personId, {
+        id: face.personId,
+        frameCount,
+        coverPhoto: isLarger ? photo : current.coverPhoto,
+        coverBox: isLarger ? face.box : current.coverBox,
+      });
+    });
+  });
+
+  return Array.from(people.values())
+    .sort((a, b) => b.frameCount - a.frameCount || a.id.localeCompare(b.id))
+    .map((person, index) => ({ ...person, label: names[person.id] ?? `Person ${index + 1}` }));
+};
+
+export const describeRule = (rule: PeopleRule, labelFor: (personId: string) => string) => {
+  const names = rule.personIds.map(labelFor).join(" & ");
+  const frames = `${rule.minFrames} ${rule.minFrames === 1 ? "frame" : "frames"}`;
+  return rule.mode === "together"
+    ? `${names} together in ≥ ${frames}`
+    : `≥ ${frames} of each: ${names}`;
+};
+
+export const checkPeopleRules = (
+  shortlist: Photo[],
+  rules: PeopleRule[],
+  labelFor: (personId: string) => string,
+): PeopleRuleCheck[] => {
+  const shortlistPeople = shortlist.map((photo) => new Set(peopleIn(photo)));
+  return rules.map((rule) => {
+    const counts = Object.fromEntries(
+      rule.personIds.map((id) => [id, shortlistPeople.filter((people) => people.has(id)).length]),
+    );
+    if (rule.mode === "together") {
+      const together = shortlistPeople.filter((people) =>
+        rule.personIds.every((id) => people.has(id)),
+      ).length;
+      return {
+        rule,
+        counts,
+        satisfied: together >= rule.minFrames,
+        message: `${describeRule(rule, labelFor)} — ${together} in the shortlist`,
+      };
+    }
+    const missing = rule.personIds.filter((id) => counts[id] < rule.minFrames);
+    return {
+      rule,
+      counts,
+      satisfied: missing.length === 0,
+      message:
+        missing.length === 0
+          ? describeRule(rule, labelFor)
+          : `${describeRule(rule, labelFor)} — short on ${missing.map(labelFor).join(", ")}`,
+    };
+  });
+};
@@ -0,0 +1,75 @@
+import type { DetectedFace } from "@/lib/people";
+import type { Photo } from "@/lib/photo-data";
+
+/**
+ * Pixel-derived measurements written by the ingest analysis step. `exposure`
+ * is a 0–1 quality score (1 = mid-tones well placed, nothing clipped),
+ * `clipping` the share of crushed or blown pixels and `noise` a 0–1 noise
+ * level (higher is noisier).
+ */
+export type ImageQualityMetrics = {
+  exposure: number;
+  clipping: number;
+  noise: number;
+};
+
+/**
+ * Per-frame roll-up of the per-face checks: the sharpness of the largest face,
+ * i.e. the likely subject. Closed eyes are judged face by face instead, since
+ * a blinking guest in the back row shouldn't count against the frame.
+ */
+export type SubjectMetrics = {
+  subjectSharpness: number;
+};
+
+/**
+ * Colour roll-ups from the analysis step. `warmth` (cool −1 … +1 warm) and
+ * `tint` (green −1 … +1 magenta) are a grey-world white-balance estimate, so
+ * they also pick up the scene's own colour: compare frames of a shoot rather
+ * than reading them as absolute. `saturation` is the mean 0–1 saturation.
+ */
+export type ColorMetrics = {
+  warmth: number;
+  tint: number;
+  saturation: number;
+};
+
+export type AnalyzedMetrics = Photo["metrics"] &
+  Partial<ImageQualityMetrics> &
+  Partial<SubjectMetrics> &
+  Partial<ColorMetrics>;
+
+export const analyzedMetrics = (photo: Photo): AnalyzedMetrics => photo.metrics;
+
+const technicalShares = { sharpness: 0.5, exposure: 0.3, clean: 0.2 };
+
+/**
+ * The "Technical excellence" signal: sharpness blended with exposure (which
+ * already pays for clipping) and a clean, low-noise image. Frames ingested
+ * without pixel analysis fall back to sharpness alone.
+ */
+export const technicalSignal = (photo: Photo) => {
+  const { sharpness, exposure, noise } = analyzedMetrics(photo);
+  if (exposure === undefined || noise === undefined) return sharpness;
+  return (
+    technicalShares.sharpness * sharpness +
+    technicalShares.exposure * exposure +
+    technicalShares.clean * (1 - noise)
+  );
+};
+
+/** One dominant colour as a `#rrggbb` hex string and its share of the frame. */
+export type PaletteSwatch = {
+  color: string;
+  share: number;
+};
+
+export type PhotoAnalysis = {
+  perceptualHash?: string;
+  detectedFaces?: DetectedFace[];
+  palette?: PaletteSwatch[];
+};
+
+export type AnalyzedPhoto = Photo & PhotoAnalysis;
+
+export const photoAnalysis = (photo: Photo): PhotoAnalysis => photo as AnalyzedPhoto;
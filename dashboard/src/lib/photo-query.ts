@@ -0,0 +1,400 @@
+import { matchesLook } from "@/lib/color-grading";
+import type { ColorMetrics } from "@/lib/photo-metrics";
+import { detectRejectFlags } from "@/lib/reject-flags";
+import type { ConsensusStatus } from "@/lib/reviews";
+import type { RankedPhoto } from "@/lib/scoring";
+import type { SemanticQuery, SemanticResults } from "@/lib/semantic-search";
+
+export const textFields = [
+  "mood",
+  "shot",
+  "location",
+  "tag",
+  "title",
+  "note",
+  "comment",
+  "describe",
+  "like",
+] as const;
+export const numericFields = ["faces", "score", "sharpness", "emotion", "fit", "rating"] as const;
+export const flagValues = [
+  "shortlisted",
+  "rated",
+  "commented",
+  "rejected",
+  "conflict",
+  "agreed",
+  "on-look",
+] as const;
+
+export type TextField = (typeof textFields)[number];
+export type NumericField = (typeof numericFields)[number];
+export type QueryFlag = (typeof flagValues)[number];
+export type Comparator = "=" | ">" | ">=" | "<" | "<=";
+
+export type QueryNode =
+  | { kind: "and"; children: QueryNode[] }
+  | { kind: "or"; children: QueryNode[] }
+  | { kind: "not"; child: QueryNode }
+  | { kind: "text"; value: string }
+  | { kind: "field"; field: TextField; value: string }
+  | { kind: "compare"; field: NumericField; comparator: Comparator; value: number }
+  | { kind: "flag"; flag: QueryFlag };
+
+export type QueryError = {
+  message: string;
+  start: number;
+  end: number;
+};
+
+export type ParsedQuery = { ok: true; ast: QueryNode | null } | { ok: false; error: QueryError };
+
+export type QueryContext = {
+  selectedIds: Set<string>;
+  ratings: Record<string, number>;
+  clientComments: Record<string, string[]>;
+  consensus: Record<string, ConsensusStatus>;
+  /** CLIP index results for `semanticQueryOf` the current query, when semantic search is on. */
+  semantic: SemanticResults | null;
+  /** The shortlist's median colour look that `is:on-look` matches against. */
+  shortlistLook: ColorMetrics | null;
+};
+
+type Token =
+  | { type: "open" | "close" | "and" | "or" | "not"; start: number; end: number }
+  | { type: "term"; text: string; quoted: boolean; start: number; end: number };
+
+class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly start: number,
+    readonly end: number,
+  ) {
+    super(message);
+  }
+}
+
+const keywords: Record<string, "and" | "or" | "not"> = { AND: "and", OR: "or", NOT: "not" };
+
+const readQuoted = (input: string, start: number) => {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) throw new QuerySyntaxError("Unclosed quote", start, input.length);
+  return { text: input.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < input.length) {
+    const char = input[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "open" : "close", start: index, end: index + 1 });
+      index += 1;
+    } else if (char === "-" && index + 1 < input.length && !/[\s)]/.test(input[index + 1])) {
+      tokens.push({ type: "not", start: index, end: index + 1 });
+      index += 1;
+    } else if (char === '"') {
+      const { text, end } = readQuoted(input, index);
+      tokens.push({ type: "term", text, quoted: true, start: index, end });
+      index = end;
+    } else {
+      const start = index;
+      let text = "";
+      while (index < input.length && !/[\s()]/.test(input[index])) {
+        if (input[index] === '"') {
+          const quoted = readQuoted(input, index);
+          text += quoted.text;
+          index = quoted.end;
+        } else {
+          text += input[index];
+          index += 1;
+        }
+      }
+      const keyword = keywords[text];
+      tokens.push(
+        keyword
+          ? { type: keyword, start, end: index }
+          : { type: "term", text, quoted: false, start, end: index },
+      );
+    }
+  }
+  return tokens;
+};
+
+const TERM_PATTERN = /^([a-z]+)(>=|<=|:|=|>|<)(.*)$/i;
+
+const parseTerm = (token: Extract<Token, { type: "term" }>): QueryNode => {
+  const match = token.quoted ? null : TERM_PATTERN.exec(token.text);
+  if (!match) return { kind: "text", value: token.text };
+
+  const [, rawField, operator, value] = match;
+  const field = rawField.toLowerCase();
+  if (!value) {
+    const message = `Missing value after "${rawField}${operator}"`;
+    throw new QuerySyntaxError(message, token.start, token.end);
+  }
+  if (field === "is") {
+    const flag = value.toLowerCase();
+    if (operator !== ":" || !(flagValues as readonly string[]).includes(flag)) {
+      throw new QuerySyntaxError(`Use is:${flagValues.join(", is:")}`, token.start, token.end);
+    }
+    return { kind: "flag", flag: flag as QueryFlag };
+  }
+  if ((textFields as readonly string[]).includes(field)) {
+    if (operator !== ":") {
+      const message = `"${field}" only supports ${field}:value`;
+      throw new QuerySyntaxError(message, token.start, token.end);
+    }
+    return { kind: "field", field: field as TextField, value };
+  }
+  if ((numericFields as readonly string[]).includes(field)) {
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+      throw new QuerySyntaxError(`"${value}" is not a number`, token.start, token.end);
+    }
+    return {
+      kind: "compare",
+      field: field as NumericField,
+      comparator: operator === ":" ? "=" : (operator as Comparator),
+      value: number,
+    };
+  }
+  throw new QuerySyntaxError(
+    `Unknown field "${rawField}" — try ${[...textFields, ...numericFields, "is"].join(", ")}`,
+    token.start,
+    token.end,
+  );
+};
+
+/**
+ * Parses the search box grammar into an AST. Terms are ANDed by default;
+ * `OR` binds looser than `AND`, and `NOT`/`-` negate the following term or
+ * parenthesised group. An empty query parses to `null`, which matches all.
+ */
+export const parseQuery = (input: string): ParsedQuery => {
+  try {
+    const tokens = tokenize(input);
+    let position = 0;
+    const peek = () => tokens[position];
+
+    const parseOr = (): QueryNode => {
+      const children = [parseAnd()];
+      while (peek()?.type === "or") {
+        position += 1;
+        children.push(parseAnd());
+      }
+      return children.length === 1 ? children[0] : { kind: "or", children };
+    };
+
+    const parseAnd = (): QueryNode => {
+      const children = [parseUnary()];
+      while (peek() && peek().type !== "or" && peek().type !== "close") {
+        if (peek().type === "and") position += 1;
+        children.push(parseUnary());
+      }
+      return children.length === 1 ? children[0] : { kind: "and", children };
+    };
+
+    const parseUnary = (): QueryNode => {
+      const token = peek();
+      if (!token) {
+        const end = input.length;
+        throw new QuerySyntaxError("Query ends where a search term was expected", end, end);
+      }
+      position += 1;
+      if (token.type === "not") return { kind: "not", child: parseUnary() };
+      if (token.type === "term") return parseTerm(token);
+      if (token.type === "open") {
+        const inner = parseOr();
+        if (peek()?.type !== "close") {
+          throw new QuerySyntaxError("Missing closing parenthesis", token.start, input.length);
+        }
+        position += 1;
+        return inner;
+      }
+      throw new QuerySyntaxError(
+        `Unexpected "${input.slice(token.start, token.end)}"`,
+        token.start,
+        token.end,
+      );
+    };
+
+    if (tokens.length === 0) return { ok: true, ast: null };
+    const ast = parseOr();
+    const extra = peek();
+    if (extra) {
+      throw new QuerySyntaxError(
+        `Unexpected "${input.slice(extra.start, extra.end)}"`,
+        extra.start,
+        extra.end,
+      );
+    }
+    return { ok: true, ast };
+  } catch (error) {
+    if (!(error instanceof QuerySyntaxError)) throw error;
+    return { ok: false, error: { message: error.message, start: error.start, end: error.end } };
+  }
+};
+
+/**
+ * The part of a query the CLIP index answers: a `like:` frame, or otherwise
+ * the `describe:` phrases read as one description. Semantic search is opt-in
+ * so plain keywords never pull in loosely similar frames; negated terms are
+ * ignored.
+ */
+export const semanticQueryOf = (node: QueryNode | null): SemanticQuery | null => {
+  const terms: string[] = [];
+  let photoId: string | undefined;
+  const visit = (current: QueryNode) => {
+    if (current.kind === "and" || current.kind === "or") current.children.forEach(visit);
+    if (current.kind !== "field") return;
+    if (current.field === "describe") terms.push(current.value);
+    if (current.field === "like") photoId ??= current.value;
+  };
+  if (node) visit(node);
+  if (photoId) return { kind: "photo", photoId };
+  return terms.length > 0 ? { kind: "text", terms } : null;
+};
+
+const includesText = (haystack: string, needle: string) =>
+  haystack.toLowerCase().includes(needle.toLowerCase());
+
+const equalsText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const compare = (actual: number, comparator: Comparator, expected: number) => {
+  switch (comparator) {
+    case "=":
+      return actual === expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+  }
+};
+
+/** Percent-style fields accept `score>0.8` and `score>80` alike. */
+const asFraction = (value: number) => (value > 1 ? value / 100 : value);
+
+const numericValue = (
+  { photo, score }: RankedPhoto,
+  field: NumericField,
+  context: QueryContext,
+  expected: number,
+) => {
+  switch (field) {
+    case "faces":
+      return { actual: photo.faces, expected };
+    case "rating":
+      return { actual: context.ratings[photo.id] ?? 0, expected };
+    case "score":
+      return { actual: score, expected: asFraction(expected) };
+    case "sharpness":
+      return { actual: photo.metrics.sharpness, expected: asFraction(expected) };
+    case "emotion":
+      return { actual: photo.metrics.emotion, expected: asFraction(expected) };
+    case "fit":
+      return { actual: photo.metrics.clientRelevance, expected: asFraction(expected) };
+  }
+};
+
+const matchesText = (entry: RankedPhoto, text: string, context: QueryContext) => {
+  const { photo } = entry;
+  const value = text.replace(/^#/, "");
+  return (
+    photo.tags.some((tag) => includesText(tag, value)) ||
+    photo.clientNotes.some((note) => includesText(note, value)) ||
+    (context.clientComments[photo.id] ?? []).some((comment) => includesText(comment, value)) ||
+    includesText(photo.title, value)
+  );
+};
+
+const matchesField = (
+  entry: RankedPhoto,
+  field: TextField,
+  value: string,
+  context: QueryContext,
+) => {
+  const { photo } = entry;
+  switch (field) {
+    case "mood":
+      return equalsText(photo.mood, value);
+    case "shot":
+      return equalsText(photo.shotType, value);
+    case "location":
+      return equalsText(photo.location, value);
+    case "tag":
+      return photo.tags.some((tag) => equalsText(tag.replace(/^#/, ""), value.replace(/^#/, "")));
+    case "title":
+      return includesText(photo.title, value);
+    case "note":
+      return photo.clientNotes.some((note) => includesText(note, value));
+    case "comment":
+      return (context.clientComments[photo.id] ?? []).some((comment) =>
+        includesText(comment, value),
+      );
+    case "describe": {
+      const { semantic } = context;
+      if (semantic?.query.kind !== "text") return matchesText(entry, value, context);
+      return semantic.query.terms.includes(value) && semantic.similarity[photo.id] !== undefined;
+    }
+    case "like": {
+      const { semantic } = context;
+      return (
+        semantic?.query.kind === "photo" &&
+        semantic.query.photoId === value &&
+        semantic.similarity[photo.id] !== undefined
+      );
+    }
+  }
+};
+
+const matchesFlag = ({ photo }: RankedPhoto, flag: QueryFlag, context: QueryContext) => {
+  switch (flag) {
+    case "shortlisted":
+      return context.selectedIds.has(photo.id);
+    case "rated":
+      return context.ratings[photo.id] !== undefined;
+    case "commented":
+      return (context.clientComments[photo.id] ?? []).length > 0;
+    case "rejected":
+      return detectRejectFlags(photo).length > 0;
+    case "conflict":
+      return context.consensus[photo.id] === "conflict";
+    case "agreed":
+      return context.consensus[photo.id] === "agreed-pick";
+    case "on-look":
+      return context.shortlistLook !== null && matchesLook(photo, context.shortlistLook);
+  }
+};
+
+export const matchesQuery = (
+  node: QueryNode | null,
+  entry: RankedPhoto,
+  context: QueryContext,
+): boolean => {
+  if (!node) return true;
+  switch (node.kind) {
+    case "and":
+      return node.children.every((child) => matchesQuery(child, entry, context));
+    case "or":
+      return node.children.some((child) => matchesQuery(child, entry, context));
+    case "not":
+      return !matchesQuery(node.child, entry, context);
+    case "text":
+      return matchesText(entry, node.value, context);
+    case "field":
+      return matchesField(entry, node.field, node.value, context);
+    case "compare": {
+      const { actual, expected } = numericValue(entry, node.field, context, node.value);
+      return compare(actual, node.comparator, expected);
+    }
+    case "flag":
+      return matchesFlag(entry, node.flag, context);
+  }
+};
@@ -0,0 +1,211 @@
+import type { PeopleRule } from "@/lib/people";
+import { rejectModeLabels, type RejectMode } from "@/lib/reject-flags";
+import { defaultModelState, type ScoringModelState } from "@/lib/scoring-models";
+import type { ClientProfile, ScoringWeights } from "@/lib/scoring";
+
+export type CurationFilters = {
+  activeShotTypes: string[];
+  activeMoods: string[];
+  activeLocations: string[];
+  activePeople: string[];
+  tagQuery: string;
+  showSelectedOnly: boolean;
+};
+
+export type SavedSearch = {
+  id: string;
+  name: string;
+  query: string;
+};
+
+export type CurationState = {
+  selectedIds: string[];
+  weights: ScoringWeights;
+  profile: ClientProfile;
+  filters: CurationFilters;
+  ratings?: Record<string, number>;
+  tagBoosts?: Record<string, number>;
+  savedSearches?: SavedSearch[];
+  peopleNames?: Record<string, string>;
+  peopleRules?: PeopleRule[];
+  scoringModel?: ScoringModelState;
+  rejectMode?: RejectMode;
+  burstLimit?: number | null;
+};
+
+export type Project = {
+  id: string;
+  name: string;
+  shootId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  curation: CurationState | null;
+  galleryToken?: string;
+};
+
+export type ProjectSummary = Omit<Project, "curation" | "galleryToken">;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const parseWeights = (value: unknown): ScoringWeights | undefined => {
+  if (!isRecord(value)) return undefined;
+  const { technical, storytelling, clientAlignment } = value;
+  if (
+    typeof technical !== "number" ||
+    typeof storytelling !== "number" ||
+    typeof clientAlignment !== "number"
+  ) {
+    return undefined;
+  }
+  return { technical, storytelling, clientAlignment };
+};
+
+export const parseProfile = (value: unknown): ClientProfile | undefined => {
+  if (!isRecord(value)) return undefined;
+  const { preferredMoods, requiredShots, highlightTags, minimumFaces } = value;
+  if (
+    !isStringArray(preferredMoods) ||
+    !isStringArray(requiredShots) ||
+    !isStringArray(highlightTags) ||
+    typeof minimumFaces !== "number"
+  ) {
+    return undefined;
+  }
+  return { preferredMoods, requiredShots, highlightTags, minimumFaces };
+};
+
+const parseFilters = (value: unknown): CurationFilters | undefined => {
+  if (!isRecord(value)) return undefined;
+  const { activeShotTypes, activeMoods, activeLocations, tagQuery, showSelectedOnly } = value;
+  const activePeople = value.activePeople ?? [];
+  if (
+    !isStringArray(activeShotTypes) ||
+    !isStringArray(activeMoods) ||
+    !isStringArray(activeLocations) ||
+    !isStringArray(activePeople) ||
+    typeof tagQuery !== "string" ||
+    typeof showSelectedOnly !== "boolean"
+  ) {
+    return undefined;
+  }
+  return {
+    activeShotTypes,
+    activeMoods,
+    activeLocations,
+    activePeople,
+    tagQuery,
+    showSelectedOnly,
+  };
+};
+
+const isStarRating = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 5;
+
+const parseRatings = (value: unknown): Record<string, number> | undefined => {
+  if (!isRecord(value) || !Object.values(value).every(isStarRating)) return undefined;
+  return value as Record<string, number>;
+};
+
+const isBoost = (value: unknown) => typeof value === "number" && Math.abs(value) <= 1;
+
+export const parseTagBoosts = (value: unknown): Record<string, number> | undefined => {
+  if (!isRecord(value) || !Object.values(value).every(isBoost)) return undefined;
+  return value as Record<string, number>;
+};
+
+const parseSavedSearches = (value: unknown): SavedSearch[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const searches = value.filter(
+    (item): item is SavedSearch =>
+      isRecord(item) &&
+      typeof item.id === "string" &&
+      typeof item.name === "string" &&
+      typeof item.query === "string",
+  );
+  return searches.length === value.length ? searches : undefined;
+};
+
+const parsePeopleNames = (value: unknown): Record<string, string> | undefined => {
+  if (!isRecord(value) || !Object.values(value).every((name) => typeof name === "string")) {
+    return undefined;
+  }
+  return value as Record<string, string>;
+};
+
+const isPeopleRule = (value: unknown): value is PeopleRule =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  isStringArray(value.personIds) &&
+  value.personIds.length > 0 &&
+  (value.mode === "together" || value.mode === "each") &&
+  typeof value.minFrames === "number" &&
+  Number.isInteger(value.minFrames) &&
+  value.minFrames >= 1;
+
+const parsePeopleRules = (value: unknown): PeopleRule[] | undefined =>
+  Array.isArray(value) && value.every(isPeopleRule) ? value : undefined;
+
+const isParameterSet = (value: unknown) =>
+  isRecord(value) && Object.values(value).every((item) => typeof item === "number");
+
+export const parseScoringModel = (value: unknown): ScoringModelState | undefined => {
+  if (!isRecord(value) || typeof value.modelId !== "string" || !isRecord(value.parameters)) {
+    return undefined;
+  }
+  if (!Object.values(value.parameters).every(isParameterSet)) return undefined;
+  return value as ScoringModelState;
+};
+
+const isRejectMode = (value: unknown): value is RejectMode =>
+  typeof value === "string" && Object.hasOwn(rejectModeLabels, value);
+
+const isBurstLimit = (value: unknown): value is number | null =>
+  value === null || (typeof value === "number" && Number.isInteger(value) && value >= 1);
+
+export const parseCurationState = (value: unknown): CurationState | undefined => {
+  if (!isRecord(value) || !isStringArray(value.selectedIds)) return undefined;
+  const weights = parseWeights(value.weights);
+  const profile = parseProfile(value.profile);
+  const filters = parseFilters(value.filters);
+  if (!weights || !profile || !filters) return undefined;
+  const ratings = value.ratings === undefined ? {} : parseRatings(value.ratings);
+  const tagBoosts = value.tagBoosts === undefined ? {} : parseTagBoosts(value.tagBoosts);
+  const savedSearches =
+    value.savedSearches === undefined ? [] : parseSavedSearches(value.savedSearches);
+  const peopleNames = value.peopleNames === undefined ? {} : parsePeopleNames(value.peopleNames);
+  const peopleRules = value.peopleRules === undefined ? [] : parsePeopleRules(value.peopleRules);
+  const scoringModel =
+    value.scoringModel === undefined ? defaultModelState : parseScoringModel(value.scoringModel);
+  const rejectMode = value.rejectMode ?? "off";
+  const burstLimit = value.burstLimit ?? null;
+  if (
+    !ratings ||
+    !tagBoosts ||
+    !savedSearches ||
+    !peopleNames ||
+    !peopleRules ||
+    !scoringModel ||
+    !isRejectMode(rejectMode) ||
+    !isBurstLimit(burstLimit)
+  ) {
+    return undefined;
+  }
+  return {
+    selectedIds: value.selectedIds,
+    weights,
+    profile,
+    filters,
+    ratings,
+    tagBoosts,
+    savedSearches,
+    peopleNames,
+    peopleRules,
+    scoringModel,
+    rejectMode,
+    burstLimit,
+  };
+};
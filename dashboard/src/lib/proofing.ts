@@ -0,0 +1,88 @@
+import type { Photo } from "@/lib/photo-data";
+
+export type ClientVerdict = "heart" | "reject";
+
+export type ClientComment = {
+  id: string;
+  body: string;
+  createdAt: string;
+};
+
+export type ClientResponse = {
+  verdict: ClientVerdict | null;
+  comments: ClientComment[];
+};
+
+export type ProofingGallery = {
+  token: string;
+  projectId: string;
+  title: string;
+  photoIds: string[];
+  createdAt: string;
+  updatedAt: string;
+  responses: Record<string, ClientResponse>;
+};
+
+/** A gallery as the dashboard polls it: everything but the token, which only the link carries. */
+export type GalleryStatus = Omit<ProofingGallery, "token">;
+
+/** The only parts of a frame the client's page receives. */
+export type ProofingPhoto = Pick<Photo, "id" | "title" | "thumbnailUrl" | "url">;
+
+export const galleryVariants = ["thumbnail", "preview"] as const;
+
+export type GalleryVariant = (typeof galleryVariants)[number];
+
+export const isGalleryVariant = (value: string): value is GalleryVariant =>
+  (galleryVariants as readonly string[]).includes(value);
+
+export type ClientResponseUpdate = {
+  photoId: string;
+  verdict?: ClientVerdict | null;
+  comment?: string;
+};
+
+export const MAX_COMMENT_LENGTH = 1000;
+
+export const emptyClientResponse: ClientResponse = { verdict: null, comments: [] };
+
+export const proofingUrl = (token: string) => `/proof/${token}`;
+
+export const galleryAssetUrl = (token: string, photoId: string, variant: GalleryVariant) =>
+  `/api/galleries/${token}/photos/${encodeURIComponent(photoId)}/${variant}`;
+
+export const galleryStatus = (gallery: ProofingGallery): GalleryStatus => ({
+  projectId: gallery.projectId,
+  title: gallery.title,
+  photoIds: gallery.photoIds,
+  createdAt: gallery.createdAt,
+  updatedAt: gallery.updatedAt,
+  responses: gallery.responses,
+});
+
+/**
+ * A frame as the proofing page shows it. Ingested frames are re-pointed at
+ * the gallery's own asset routes, which only serve frames the gallery shares.
+ */
+export const proofingPhoto = (token: string, photo: Photo): ProofingPhoto => {
+  const isIngested = photo.url.startsWith("/api/shoots/");
+  return {
+    id: photo.id,
+    title: photo.title,
+    thumbnailUrl: isIngested ? galleryAssetUrl(token, photo.id, "thumbnail") : photo.thumbnailUrl,
+    url: isIngested ? galleryAssetUrl(token, photo.id, "preview") : photo.url,
+  };
+};
+
+export const parseClientResponseUpdate = (value: unknown): ClientResponseUpdate | undefined => {
+  if (typeof value !== "object" || value === null) return undefined;
+  const { photoId, verdict, comment } = value as Record<string, unknown>;
+  if (typeof photoId !== "string") return undefined;
+  if (verdict !== undefined && verdict !== null && verdict !== "heart" && verdict !== "reject") {
+    return undefined;
+  }
+  if (comment !== undefined && (typeof comment !== "string" || comment.length > MAX_COMMENT_LENGTH)) {
+    return undefined;
+  }
+  return { photoId, verdict, comment: comment?.trim() || undefined };
+};
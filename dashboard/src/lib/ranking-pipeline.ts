@@ -0,0 +1,139 @@
+import { applyBurstLimit, groupBursts } from "@/lib/bursts";
+import { peopleIn } from "@/lib/people";
+import type { Photo } from "@/lib/photo-data";
+import { matchesQuery, parseQuery, type QueryContext } from "@/lib/photo-query";
+import type { CurationFilters, SavedSearch } from "@/lib/projects";
+import { applyRejectMode, type RejectMode } from "@/lib/reject-flags";
+import { applyTagBoosts, type ExplainedPhoto } from "@/lib/score-breakdown";
+import type { ClientProfile } from "@/lib/scoring";
+import { rankWithModel, type ModelChoice } from "@/lib/scoring-models";
+import { isWithinRange, type TimeRange } from "@/lib/timeline";
+
+export type RankingRequest = {
+  model: ModelChoice;
+  profile: ClientProfile;
+  tagBoosts: Record<string, number>;
+  burstLimit: number | null;
+  rejectMode: RejectMode;
+  filters: CurationFilters;
+  context: QueryContext;
+  collections: SavedSearch[];
+  timeRange: TimeRange | null;
+};
+
+export type RankingResult = {
+  rankedPhotos: ExplainedPhoto[];
+  filtered: ExplainedPhoto[];
+  collectionCounts: Record<string, number | null>;
+};
+
+/** A ranked entry as posted from the worker; `photoIndex` points into the catalog. */
+export type RankedEntryMessage = Omit<ExplainedPhoto, "photo"> & { photoIndex: number };
+
+/** `ranked` is null when the ranking is the one the worker posted last. */
+export type RankingResultMessage = {
+  requestId: number;
+  ranked: RankedEntryMessage[] | null;
+  filteredPositions: number[];
+  collectionCounts: Record<string, number | null>;
+};
+
+export type RankingWorkerMessage =
+  | { type: "catalog"; photos: Photo[] }
+  | { type: "rank"; requestId: number; request: RankingRequest };
+
+const passesFilters = (
+  { photo }: ExplainedPhoto,
+  filters: CurationFilters,
+  context: QueryContext,
+) => {
+  const { activeShotTypes, activeMoods, activeLocations, activePeople, showSelectedOnly } = filters;
+  if (showSelectedOnly && !context.selectedIds.has(photo.id)) return false;
+  if (activeShotTypes.length > 0 && !activeShotTypes.includes(photo.shotType)) return false;
+  if (activeMoods.length > 0 && !activeMoods.includes(photo.mood)) return false;
+  if (activeLocations.length > 0 && !activeLocations.includes(photo.location)) return false;
+  if (activePeople.length > 0) {
+    const people = peopleIn(photo);
+    if (!activePeople.every((id) => people.includes(id))) return false;
+  }
+  return true;
+};
+
+/**
+ * A described search lists the closest frames first. When the query also
+ * lets keyword matches through (`describe:… OR tag:…`) the score order is
+ * kept, so those matches aren't pushed below the semantic ones.
+ */
+const orderBySimilarity = (entries: ExplainedPhoto[], similarity: Record<string, number>) =>
+  entries.every((entry) => similarity[entry.photo.id] !== undefined)
+    ? [...entries].sort((a, b) => similarity[b.photo.id] - similarity[a.photo.id])
+    : entries;
+
+/** The parts of a request that change the ranking; the rest only filters it. */
+const rankingKey = ({ model, profile, tagBoosts, burstLimit, rejectMode }: RankingRequest) =>
+  JSON.stringify([model, profile, tagBoosts, burstLimit, rejectMode]);
+
+/**
+ * Ranking, filtering and smart-collection counts for one catalog. The same
+ * pipeline runs in the ranking worker and, for the first paint, on the page.
+ * `run` keeps the last ranking, so a pick, filter or search only re-filters.
+ */
+export const createRankingPipeline = (photos: Photo[]) => {
+  const burstIndex = groupBursts(photos);
+
+  const rank = (
+    model: ModelChoice,
+    profile: ClientProfile,
+    tagBoosts: Record<string, number>,
+    burstLimit: number | null,
+    rejectMode: RejectMode,
+  ) => {
+    const rankings = applyRejectMode(
+      applyTagBoosts(rankWithModel(photos, model, profile), tagBoosts),
+      rejectMode,
+    );
+    return burstLimit === null ? rankings : applyBurstLimit(rankings, burstIndex, burstLimit);
+  };
+
+  let lastRanking: { key: string; rankedPhotos: ExplainedPhoto[] } | null = null;
+
+  const rankFor = (request: RankingRequest) => {
+    const key = rankingKey(request);
+    if (lastRanking?.key !== key) {
+      const { model, profile, tagBoosts, burstLimit, rejectMode } = request;
+      lastRanking = { key, rankedPhotos: rank(model, profile, tagBoosts, burstLimit, rejectMode) };
+    }
+    return lastRanking.rankedPhotos;
+  };
+
+  const filter = (rankedPhotos: ExplainedPhoto[], request: RankingRequest): RankingResult => {
+    const { filters, context, timeRange } = request;
+    const query = parseQuery(filters.tagQuery);
+    const matching = rankedPhotos.filter(
+      (entry) =>
+        passesFilters(entry, filters, context) &&
+        (!timeRange || isWithinRange(entry.photo, timeRange)) &&
+        (!query.ok || matchesQuery(query.ast, entry, context)),
+    );
+    const filtered = context.semantic
+      ? orderBySimilarity(matching, context.semantic.similarity)
+      : matching;
+    const keywordContext = { ...context, semantic: null };
+    const collectionCounts = Object.fromEntries(
+      request.collections.map((search) => {
+        const parsed = parseQuery(search.query);
+        const count = parsed.ok
+          ? rankedPhotos.filter((entry) => matchesQuery(parsed.ast, entry, keywordContext)).length
+          : null;
+        return [search.id, count];
+      }),
+    );
+    return { rankedPhotos, filtered, collectionCounts };
+  };
+
+  const run = (request: RankingRequest): RankingResult => filter(rankFor(request), request);
+
+  return { burstIndex, rank, run };
+};
+
+export type RankingPipeline = ReturnType<typeof createRankingPipeline>;
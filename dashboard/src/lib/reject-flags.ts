@@ -0,0 +1,85 @@
+import { detectedFaces } from "@/lib/people";
+import type { Photo } from "@/lib/photo-data";
+import { analyzedMetrics } from "@/lib/photo-metrics";
+import { withPenalty, type ExplainedPhoto } from "@/lib/score-breakdown";
+
+export type RejectReason = "eyes-closed" | "subject-blur";
+
+export type RejectFlag = {
+  reason: RejectReason;
+  detail: string;
+};
+
+/** `off` only badges flagged frames, `penalize` sinks them, `drop` removes them. */
+export type RejectMode = "off" | "penalize" | "drop";
+
+export const rejectReasonLabels: Record<RejectReason, string> = {
+  "eyes-closed": "Eyes closed",
+  "subject-blur": "Subject blur",
+};
+
+export const rejectModeLabels: Record<RejectMode, string> = {
+  off: "Flag only",
+  penalize: "Penalize",
+  drop: "Drop",
+};
+
+export const REJECT_PENALTY = 0.25;
+
+const EYES_CLOSED_BELOW = 0.3;
+const SUBJECT_BLUR_BELOW = 0.3;
+const FRAME_BLUR_BELOW = 0.15;
+const MIN_CHECKED_FACE_AREA = 0.004;
+
+/**
+ * Flags a frame for rejection. Eyes are only judged on faces big enough to
+ * matter, so a blinking guest at the back doesn't sink a portrait; blur uses
+ * the subject's face when there is one and the whole frame otherwise.
+ */
+export const detectRejectFlags = (photo: Photo): RejectFlag[] => {
+  const flags: RejectFlag[] = [];
+  const faces = detectedFaces(photo).filter(
+    (face) => face.box.width * face.box.height >= MIN_CHECKED_FACE_AREA,
+  );
+
+  const blinking = faces.filter(
+    (face) => typeof face.eyesOpen === "number" && face.eyesOpen < EYES_CLOSED_BELOW,
+  );
+  if (blinking.length > 0) {
+    flags.push({
+      reason: "eyes-closed",
+      detail:
+        blinking.length === 1 ? "1 face with closed eyes" : `${blinking.length} faces with closed eyes`,
+    });
+  }
+
+  const { subjectSharpness } = analyzedMetrics(photo);
+  if (subjectSharpness !== undefined && subjectSharpness < SUBJECT_BLUR_BELOW) {
+    flags.push({
+      reason: "subject-blur",
+      detail: `Subject sharpness ${(subjectSharpness * 100).toFixed(0)}%`,
+    });
+  } else if (subjectSharpness === undefined && photo.metrics.sharpness < FRAME_BLUR_BELOW) {
+    flags.push({
+      reason: "subject-blur",
+      detail: `Frame sharpness ${(photo.metrics.sharpness * 100).toFixed(0)}%`,
+    });
+  }
+  return flags;
+};
+
+export const applyRejectMode = <T extends ExplainedPhoto>(rankings: T[], mode: RejectMode): T[] => {
+  if (mode === "off") return rankings;
+  if (mode === "drop") {
+    return rankings.filter((entry) => detectRejectFlags(entry.photo).length === 0);
+  }
+  return rankings
+    .map((entry) =>
+      detectRejectFlags(entry.photo).reduce(
+        (adjusted, flag) =>
+          withPenalty(adjusted, { reason: rejectReasonLabels[flag.reason], amount: REJECT_PENALTY }),
+        entry,
+      ),
+    )
+    .sort((a, b) => b.score - a.score);
+};
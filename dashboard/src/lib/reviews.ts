@@ -0,0 +1,187 @@
+export type ReviewerRole = "lead" | "second" | "editor";
+
+export type Reviewer = {
+  id: string;
+  name: string;
+  role: ReviewerRole;
+};
+
+export type ReviewPick = "pick" | "reject";
+
+export type ReviewVote = {
+  pick: ReviewPick | null;
+  rating: number | null;
+  updatedAt: string;
+};
+
+/** Votes keyed by reviewer id, then photo id. */
+export type ReviewVotes = Record<string, Record<string, ReviewVote>>;
+
+export type ProjectReviews = {
+  reviewers: Reviewer[];
+  votes: ReviewVotes;
+};
+
+export type ReviewUpdate = {
+  photoId: string;
+  pick?: ReviewPick | null;
+  rating?: number | null;
+};
+
+export type ReviewEvent = {
+  type: "vote";
+  reviewer: Reviewer;
+  photoId: string;
+  vote: ReviewVote | null;
+};
+
+export type ConsensusStatus =
+  | "agreed-pick"
+  | "agreed-reject"
+  | "conflict"
+  | "pending"
+  | "unreviewed";
+
+export type PhotoConsensus = {
+  picks: string[];
+  rejects: string[];
+  ratings: Record<string, number>;
+  averageRating: number | null;
+  agreement: number;
+  status: ConsensusStatus;
+};
+
+export const REVIEWER_COOKIE = "curator-reviewer";
+
+export const MAX_REVIEWER_NAME_LENGTH = 60;
+
+export const reviewerRoleLabels: Record<ReviewerRole, string> = {
+  lead: "Lead shooter",
+  second: "Second shooter",
+  editor: "Editor",
+};
+
+export const consensusLabels: Record<ConsensusStatus, string> = {
+  "agreed-pick": "Agreed pick",
+  "agreed-reject": "Agreed reject",
+  conflict: "Conflict",
+  pending: "Awaiting votes",
+  unreviewed: "Unreviewed",
+};
+
+const CONFLICTING_RATING_SPREAD = 3;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isReviewerRole = (value: unknown): value is ReviewerRole =>
+  typeof value === "string" && value in reviewerRoleLabels;
+
+export const parseReviewerLogin = (
+  value: unknown,
+): Pick<Reviewer, "name" | "role"> | undefined => {
+  if (!isRecord(value) || typeof value.name !== "string" || !isReviewerRole(value.role)) {
+    return undefined;
+  }
+  const name = value.name.trim();
+  if (!name || name.length > MAX_REVIEWER_NAME_LENGTH) return undefined;
+  return { name, role: value.role };
+};
+
+export const parseReviewUpdate = (value: unknown): ReviewUpdate | undefined => {
+  if (!isRecord(value) || typeof value.photoId !== "string") return undefined;
+  const { photoId, pick, rating } = value;
+  if (pick !== undefined && pick !== null && pick !== "pick" && pick !== "reject") {
+    return undefined;
+  }
+  if (
+    rating !== undefined &&
+    rating !== null &&
+    !(typeof rating === "number" && Number.isInteger(rating) && rating >= 1 && rating <= 5)
+  ) {
+    return undefined;
+  }
+  return { photoId, pick, rating };
+};
+
+/** Merges an update into a vote; returns null once the vote holds nothing. */
+export const applyReviewUpdate = (
+  current: ReviewVote | undefined,
+  { pick, rating }: ReviewUpdate,
+  updatedAt: string,
+): ReviewVote | null => {
+  const next = {
+    pick: pick === undefined ? (current?.pick ?? null) : pick,
+    rating: rating === undefined ? (current?.rating ?? null) : rating,
+    updatedAt,
+  };
+  return next.pick === null && next.rating === null ? null : next;
+};
+
+export const withVote = (
+  votes: ReviewVotes,
+  reviewerId: string,
+  photoId: string,
+  vote: ReviewVote | null,
+): ReviewVotes => {
+  const reviewerVotes = { ...votes[reviewerId] };
+  if (vote) {
+    reviewerVotes[photoId] = vote;
+  } else {
+    delete reviewerVotes[photoId];
+  }
+  return { ...votes, [reviewerId]: reviewerVotes };
+};
+
+/**
+ * Folds every reviewer's vote into a per-photo verdict. A pick against a
+ * reject, or star ratings three or more apart, is a conflict; two or more
+ * matching picks (or rejects) are agreement. `agreement` is the share of
+ * pick/reject votes on the majority side.
+ */
+export const buildConsensus = (votes: ReviewVotes): Record<string, PhotoConsensus> => {
+  const consensus: Record<string, PhotoConsensus> = {};
+  Object.entries(votes).forEach(([reviewerId, reviewerVotes]) => {
+    Object.entries(reviewerVotes).forEach(([photoId, vote]) => {
+      const entry = (consensus[photoId] ??= {
+        picks: [],
+        rejects: [],
+        ratings: {},
+        averageRating: null,
+        agreement: 1,
+        status: "unreviewed",
+      });
+      if (vote.pick === "pick") entry.picks.push(reviewerId);
+      if (vote.pick === "reject") entry.rejects.push(reviewerId);
+      if (vote.rating !== null) entry.ratings[reviewerId] = vote.rating;
+    });
+  });
+
+  Object.values(consensus).forEach((entry) => {
+    const ratings = Object.values(entry.ratings);
+    const decided = entry.picks.length + entry.rejects.length;
+    entry.averageRating = ratings.length
+      ? ratings.reduce((acc, rating) => acc + rating, 0) / ratings.length
+      : null;
+    entry.agreement = decided ? Math.max(entry.picks.length, entry.rejects.length) / decided : 1;
+
+    const ratingSpread = ratings.length ? Math.max(...ratings) - Math.min(...ratings) : 0;
+    const isSplit = entry.picks.length > 0 && entry.rejects.length > 0;
+    if (isSplit || ratingSpread >= CONFLICTING_RATING_SPREAD) {
+      entry.status = "conflict";
+    } else if (decided < 2) {
+      entry.status = "pending";
+    } else {
+      entry.status = entry.picks.length > 0 ? "agreed-pick" : "agreed-reject";
+    }
+  });
+  return consensus;
+};
+
+export const reviewerInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
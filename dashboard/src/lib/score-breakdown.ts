@@ -0,0 +1,195 @@
+import type { Photo } from "@/lib/photo-data";
+import { technicalSignal } from "@/lib/photo-metrics";
+import type { ClientProfile, RankedPhoto, ScoringWeights } from "@/lib/scoring";
+
+export type ScoreComponent = {
+  key: string;
+  label: string;
+  weight: number;
+  signal: number;
+  contribution: number;
+};
+
+export type ScorePenalty = {
+  reason: string;
+  amount: number;
+};
+
+export type ScoreBoost = {
+  reason: string;
+  amount: number;
+};
+
+export type ScoreBreakdown = {
+  components: ScoreComponent[];
+  matches: {
+    moods: string[];
+    shots: string[];
+    tags: string[];
+  };
+  misses: string[];
+  penalties: ScorePenalty[];
+  boosts: ScoreBoost[];
+};
+
+export type ExplainedPhoto = RankedPhoto & {
+  breakdown: ScoreBreakdown;
+};
+
+export const componentLabels: Record<keyof ScoringWeights, string> = {
+  technical: "Technical excellence",
+  storytelling: "Storytelling & emotion",
+  clientAlignment: "Client alignment",
+};
+
+export type ComponentSignals = Record<keyof ScoringWeights, number>;
+
+/** The technical component is the blended technical signal, not raw sharpness. */
+export const componentSignals = (photo: Photo): ComponentSignals => ({
+  technical: technicalSignal(photo),
+  storytelling: photo.metrics.emotion,
+  clientAlignment: photo.metrics.clientRelevance,
+});
+
+/** What each brief term adds to or takes off a Balanced brief score. */
+const briefTermAmounts = {
+  mood: 0.06,
+  shot: 0.05,
+  tag: 0.03,
+  offShot: 0.04,
+  fewFaces: 0.1,
+};
+
+const briefMisses = (photo: Photo, profile: ClientProfile): ScorePenalty[] => {
+  const misses: ScorePenalty[] = [];
+  if (photo.faces < profile.minimumFaces) {
+    const found = photo.faces === 0 ? "No faces" : `${photo.faces} faces`;
+    misses.push({
+      reason: `${found} — brief asks for ${profile.minimumFaces}+`,
+      amount: briefTermAmounts.fewFaces,
+    });
+  }
+  if (profile.requiredShots.length > 0 && !profile.requiredShots.includes(photo.shotType)) {
+    misses.push({
+      reason: `${photo.shotType} is not a must-have shot type`,
+      amount: briefTermAmounts.offShot,
+    });
+  }
+  return misses;
+};
+
+/** How a frame lines up with the brief, independent of the scoring model. */
+export const matchBrief = (
+  photo: Photo,
+  profile: ClientProfile,
+): Pick<ScoreBreakdown, "matches" | "misses"> => ({
+  matches: {
+    moods: profile.preferredMoods.filter((mood) => mood === photo.mood),
+    shots: profile.requiredShots.filter((shot) => shot === photo.shotType),
+    tags: profile.highlightTags.filter((tag) => photo.tags.includes(tag)),
+  },
+  misses: briefMisses(photo, profile).map((miss) => miss.reason),
+});
+
+/** One boost per matched mood, shot and highlight tag, one penalty per miss. */
+const briefTerms = (
+  photo: Photo,
+  profile: ClientProfile,
+): Pick<ScoreBreakdown, "boosts" | "penalties"> => {
+  const { moods, shots, tags } = matchBrief(photo, profile).matches;
+  const { mood, shot, tag } = briefTermAmounts;
+  return {
+    boosts: [
+      ...moods.map((match) => ({ reason: `Preferred mood: ${match}`, amount: mood })),
+      ...shots.map((match) => ({ reason: `Must-have shot: ${match}`, amount: shot })),
+      ...tags.map((match) => ({ reason: `Highlight tag #${match}`, amount: tag })),
+    ],
+    penalties: briefMisses(photo, profile),
+  };
+};
+
+/**
+ * The Balanced brief score with its breakdown: each component contributes
+ * weight × its signal in `signals`, then every brief term is applied as its
+ * own boost or penalty, so the lines add up to the score and a miss shows
+ * what it cost.
+ */
+export const explainScore = (
+  photo: Photo,
+  signals: ComponentSignals,
+  weights: ScoringWeights,
+  profile: ClientProfile,
+): ExplainedPhoto => {
+  const keys = Object.keys(componentLabels) as Array<keyof ScoringWeights>;
+  const components = keys.map((key) => ({
+    key,
+    label: componentLabels[key],
+    weight: weights[key],
+    signal: signals[key],
+    contribution: weights[key] * signals[key],
+  }));
+  const base = components.reduce((acc, component) => acc + component.contribution, 0);
+  const entry: ExplainedPhoto = {
+    photo,
+    score: Math.min(1, Math.max(0, base)),
+    breakdown: { components, ...matchBrief(photo, profile), penalties: [], boosts: [] },
+  };
+  const { boosts, penalties } = briefTerms(photo, profile);
+  return penalties.reduce(withPenalty, boosts.reduce(withBoost, entry));
+};
+
+export const buildExplainedRankings = (
+  photos: Photo[],
+  weights: ScoringWeights,
+  profile: ClientProfile,
+): ExplainedPhoto[] =>
+  photos
+    .map((photo) => explainScore(photo, componentSignals(photo), weights, profile))
+    .sort((a, b) => b.score - a.score);
+
+export const withPenalty = <T extends ExplainedPhoto>(entry: T, penalty: ScorePenalty): T => {
+  const amount = Math.min(entry.score, penalty.amount);
+  return {
+    ...entry,
+    score: entry.score - amount,
+    breakdown: {
+      ...entry.breakdown,
+      penalties: [...entry.breakdown.penalties, { ...penalty, amount }],
+    },
+  };
+};
+
+export const withBoost = <T extends ExplainedPhoto>(entry: T, boost: ScoreBoost): T => {
+  const amount = Math.min(1 - entry.score, boost.amount);
+  return {
+    ...entry,
+    score: entry.score + amount,
+    breakdown: {
+      ...entry.breakdown,
+      boosts: [...entry.breakdown.boosts, { ...boost, amount }],
+    },
+  };
+};
+
+/**
+ * Applies per-tag score adjustments, such as the boosts learned from past
+ * selections. Positive values lift a frame, negative ones count as penalties.
+ */
+export const applyTagBoosts = <T extends ExplainedPhoto>(
+  rankings: T[],
+  tagBoosts: Record<string, number>,
+): T[] => {
+  if (Object.keys(tagBoosts).length === 0) return rankings;
+  return rankings
+    .map((entry) =>
+      entry.photo.tags.reduce((adjusted, tag) => {
+        const amount = tagBoosts[tag];
+        if (!amount) return adjusted;
+        const reason = `Learned preference for #${tag}`;
+        return amount > 0
+          ? withBoost(adjusted, { reason, amount })
+          : withPenalty(adjusted, { reason, amount: -amount });
+      }, entry),
+    )
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,19 @@
+export type ScoreTier = {
+  label: string;
+  threshold: number;
+  stars: number;
+};
+
+export const scoreTiers: ScoreTier[] = [
+  { label: "Hero candidate", threshold: 0.86, stars: 5 },
+  { label: "Strong pick", threshold: 0.72, stars: 4 },
+  { label: "Consider", threshold: 0.6, stars: 3 },
+  { label: "Hold", threshold: Number.NEGATIVE_INFINITY, stars: 1 },
+];
+
+export const scoreToTier = (score: number) =>
+  scoreTiers.find((tier) => score > tier.threshold) ?? scoreTiers[scoreTiers.length - 1];
+
+export const scoreToLabel = (score: number) => scoreToTier(score).label;
+
+export const scoreToStars = (score: number) => scoreToTier(score).stars;
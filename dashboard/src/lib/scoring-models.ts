@@ -0,0 +1,294 @@
+import type { Photo } from "@/lib/photo-data";
+import { analyzedMetrics } from "@/lib/photo-metrics";
+import {
+  buildExplainedRankings,
+  componentLabels,
+  matchBrief,
+  withPenalty,
+  type ExplainedPhoto,
+} from "@/lib/score-breakdown";
+import type { ClientProfile, ScoringWeights } from "@/lib/scoring";
+import { defaultWeights, normalizeWeights } from "@/lib/weights";
+
+/**
+ * A slider a model exposes. `weight` parameters are relative influences,
+ * normalised against the model's other weights; `amount` parameters are
+ * absolute 0–100 settings such as a cutoff or a penalty size.
+ */
+export type ModelParameter = {
+  key: string;
+  label: string;
+  description: string;
+  kind: "weight" | "amount";
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+};
+
+export type ModelParameters = Record<string, number>;
+
+/**
+ * A ranking strategy. `rank` scores the whole catalog at once, so a model may
+ * normalise against the shoot, and returns entries best first, each with a
+ * breakdown that explains its score.
+ */
+export type ScoringModel = {
+  id: string;
+  name: string;
+  description: string;
+  parameters: ModelParameter[];
+  rank: (photos: Photo[], parameters: ModelParameters, profile: ClientProfile) => ExplainedPhoto[];
+};
+
+/** The model a project ranks with plus the slider values of every other model tried. */
+export type ScoringModelState = {
+  modelId: string;
+  parameters: Record<string, ModelParameters>;
+};
+
+export type ModelChoice = {
+  modelId: string;
+  parameters: ModelParameters;
+};
+
+export const DEFAULT_MODEL_ID = "balanced-brief";
+
+export const defaultModelState: ScoringModelState = { modelId: DEFAULT_MODEL_ID, parameters: {} };
+
+const registry = new Map<string, ScoringModel>();
+
+/**
+ * Models are registered here, at module load, because the page, the ranking
+ * worker and server exports each evaluate their own copy of this module: a
+ * model registered from anywhere else would be missing from the others.
+ */
+const registerScoringModel = (model: ScoringModel) => {
+  registry.set(model.id, model);
+};
+
+export const listScoringModels = () => Array.from(registry.values());
+
+/** Unknown ids (a model removed since the project was saved) fall back to the default. */
+export const getScoringModel = (modelId: string) =>
+  registry.get(modelId) ?? (registry.get(DEFAULT_MODEL_ID) as ScoringModel);
+
+/** Fills in missing values with the model's defaults and clamps the rest to range. */
+export const resolveParameters = (
+  model: ScoringModel,
+  values: ModelParameters | undefined,
+): ModelParameters =>
+  Object.fromEntries(
+    model.parameters.map(({ key, min, max, defaultValue }) => [
+      key,
+      Math.min(max, Math.max(min, values?.[key] ?? defaultValue)),
+    ]),
+  );
+
+/**
+ * The default model keeps its sliders in the project's `weights`, which
+ * presets, learned weights and shared links already read and write.
+ */
+export const modelChoice = (state: ScoringModelState, weights: ScoringWeights): ModelChoice => {
+  const model = getScoringModel(state.modelId);
+  return {
+    modelId: model.id,
+    parameters: resolveParameters(
+      model,
+      model.id === DEFAULT_MODEL_ID ? weights : state.parameters[model.id],
+    ),
+  };
+};
+
+export const rankWithModel = (
+  photos: Photo[],
+  { modelId, parameters }: ModelChoice,
+  profile: ClientProfile,
+) => {
+  const model = getScoringModel(modelId);
+  return model.rank(photos, resolveParameters(model, parameters), profile);
+};
+
+/** Influence of each weight parameter after normalising, for the "Influence: x%" hints. */
+export const parameterInfluence = (model: ScoringModel, parameters: ModelParameters) => {
+  const weights = model.parameters.filter((parameter) => parameter.kind === "weight");
+  const total = weights.reduce((acc, { key }) => acc + (parameters[key] ?? 0), 0);
+  return Object.fromEntries(
+    weights.map(({ key }) => [key, total > 0 ? (parameters[key] ?? 0) / total : 0]),
+  );
+};
+
+type ModelSignal = {
+  key: string;
+  label: string;
+  description: string;
+  defaultWeight: number;
+  measure: (photo: Photo) => number;
+};
+
+const weightParameter = ({ key, label, description, defaultWeight }: ModelSignal) => ({
+  key,
+  label,
+  description,
+  kind: "weight" as const,
+  min: 0,
+  max: 70,
+  step: 1,
+  defaultValue: defaultWeight,
+});
+
+/**
+ * Ranks by a weighted mean of per-frame signals. Each signal becomes one line
+ * of the breakdown; `adjust` can then add model-specific penalties. The
+ * brief's matches and misses are listed in the breakdown but not scored:
+ * these genre models rank on the frame alone.
+ */
+const rankBySignals = (
+  photos: Photo[],
+  signals: ModelSignal[],
+  parameters: ModelParameters,
+  profile: ClientProfile,
+  adjust: (entry: ExplainedPhoto) => ExplainedPhoto = (entry) => entry,
+) => {
+  const total = signals.reduce((acc, { key }) => acc + parameters[key], 0) || 1;
+  return photos
+    .map((photo) => {
+      const components = signals.map(({ key, label, measure }) => {
+        const weight = parameters[key] / total;
+        const signal = Math.min(1, Math.max(0, measure(photo)));
+        return { key, label, weight, signal, contribution: weight * signal };
+      });
+      const score = components.reduce((acc, component) => acc + component.contribution, 0);
+      return adjust({
+        photo,
+        score,
+        breakdown: { components, ...matchBrief(photo, profile), penalties: [], boosts: [] },
+      });
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+const weightKeys = Object.keys(componentLabels) as Array<keyof ScoringWeights>;
+
+registerScoringModel({
+  id: DEFAULT_MODEL_ID,
+  name: "Balanced brief",
+  description:
+    "Technical quality, storytelling and fit with the client brief. Suits weddings and events.",
+  parameters: weightKeys.map((key) => ({
+    key,
+    label: componentLabels[key],
+    description: "",
+    kind: "weight",
+    min: 15,
+    max: 70,
+    step: 1,
+    defaultValue: defaultWeights[key],
+  })),
+  rank: (photos, parameters, profile) =>
+    buildExplainedRankings(photos, normalizeWeights(parameters as ScoringWeights), profile),
+});
+
+const focusOf = (photo: Photo) =>
+  analyzedMetrics(photo).subjectSharpness ?? photo.metrics.sharpness;
+
+const sportsSignals: ModelSignal[] = [
+  {
+    key: "focus",
+    label: "Subject focus",
+    description: "Sharpness of the athlete's face, or of the frame when no face was found.",
+    defaultWeight: 45,
+    measure: focusOf,
+  },
+  {
+    key: "peak",
+    label: "Peak moment",
+    description: "Emotion and intensity of the moment.",
+    defaultWeight: 40,
+    measure: (photo) => photo.metrics.emotion,
+  },
+  {
+    key: "fit",
+    label: "Client fit",
+    description: "How well the frame answers the brief.",
+    defaultWeight: 15,
+    measure: (photo) => photo.metrics.clientRelevance,
+  },
+];
+
+registerScoringModel({
+  id: "sports-action",
+  name: "Sports & action",
+  description: "Peak action first, and missed focus on the subject is punished hard.",
+  parameters: [
+    ...sportsSignals.map(weightParameter),
+    {
+      key: "focusCutoff",
+      label: "Soft-focus cutoff",
+      description: "Frames whose subject focus falls below this lose a third of their score.",
+      kind: "amount",
+      min: 0,
+      max: 80,
+      step: 5,
+      defaultValue: 35,
+    },
+  ],
+  rank: (photos, parameters, profile) =>
+    rankBySignals(photos, sportsSignals, parameters, profile, (entry) =>
+      focusOf(entry.photo) < parameters.focusCutoff / 100
+        ? withPenalty(entry, { reason: "Subject below the focus cutoff", amount: entry.score / 3 })
+        : entry,
+    ),
+});
+
+const productSignals: ModelSignal[] = [
+  {
+    key: "sharpness",
+    label: "Sharpness",
+    description: "Edge detail across the whole frame.",
+    defaultWeight: 40,
+    measure: (photo) => photo.metrics.sharpness,
+  },
+  {
+    key: "exposure",
+    label: "Exposure",
+    description: "Well-placed tones with nothing clipped; neutral when not measured.",
+    defaultWeight: 35,
+    measure: (photo) => analyzedMetrics(photo).exposure ?? 0.5,
+  },
+  {
+    key: "clean",
+    label: "Clean image",
+    description: "Low sensor noise; neutral when not measured.",
+    defaultWeight: 25,
+    measure: (photo) => 1 - (analyzedMetrics(photo).noise ?? 0.5),
+  },
+];
+
+registerScoringModel({
+  id: "product",
+  name: "Product & still life",
+  description: "Technical perfection over emotion; people in frame count against a shot.",
+  parameters: [
+    ...productSignals.map(weightParameter),
+    {
+      key: "peoplePenalty",
+      label: "People in frame penalty",
+      description: "Points taken off frames where a face was detected.",
+      kind: "amount",
+      min: 0,
+      max: 50,
+      step: 5,
+      defaultValue: 20,
+    },
+  ],
+  rank: (photos, parameters, profile) =>
+    rankBySignals(photos, productSignals, parameters, profile, (entry) =>
+      entry.photo.faces > 0 && parameters.peoplePenalty > 0
+        ? withPenalty(entry, {
+            reason: "People in a product frame",
+            amount: parameters.peoplePenalty / 100,
+          })
+        : entry,
+    ),
+});
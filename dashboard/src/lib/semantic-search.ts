@@ -0,0 +1,31 @@
+/**
+ * What the search box asks the CLIP index: the `describe:` phrases of the
+ * query as one description, or the frame named by `like:<photo id>`.
+ */
+export type SemanticQuery = { kind: "text"; terms: string[] } | { kind: "photo"; photoId: string };
+
+export type SemanticMatch = {
+  photoId: string;
+  similarity: number;
+};
+
+/** Index answer for one query: cosine similarity of every frame that made the cut. */
+export type SemanticResults = {
+  query: SemanticQuery;
+  similarity: Record<string, number>;
+};
+
+export const semanticQueryKey = (query: SemanticQuery) =>
+  query.kind === "text" ? `text:${query.terms.join(" ")}` : `photo:${query.photoId}`;
+
+export const semanticSearchParams = (query: SemanticQuery) =>
+  new URLSearchParams(
+    query.kind === "text" ? { q: query.terms.join(" ") } : { like: query.photoId },
+  );
+
+export const parseSemanticSearchParams = (params: URLSearchParams): SemanticQuery | undefined => {
+  const like = params.get("like")?.trim();
+  if (like) return { kind: "photo", photoId: like };
+  const text = params.get("q")?.trim();
+  return text ? { kind: "text", terms: text.split(/\s+/) } : undefined;
+};
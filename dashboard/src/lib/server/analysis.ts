@@ -0,0 +1,249 @@
+import sharp from "sharp";
+import type { ColorMetrics, ImageQualityMetrics, PaletteSwatch } from "@/lib/photo-metrics";
+
+const ANALYSIS_EDGE = 1024;
+const SHARPNESS_SCALE = 300;
+const NOISE_SCALE = 8;
+const TARGET_LUMINANCE = 0.46;
+const SHADOW_CLIP = 2;
+const HIGHLIGHT_CLIP = 253;
+const COLOR_EDGE = 128;
+const BALANCE_MIN_LUMA = 20;
+const BALANCE_MAX_LUMA = 235;
+const BALANCE_SCALE = 2.5;
+const PALETTE_BITS = 3;
+const PALETTE_SIZE = 5;
+const MIN_SWATCH_SHARE = 0.03;
+
+export type TechnicalAnalysis = ImageQualityMetrics & {
+  sharpness: number;
+};
+
+export type GrayscaleImage = {
+  data: Uint8Array;
+  width: number;
+  height: number;
+};
+
+export type ImageAnalysis = {
+  quality: TechnicalAnalysis;
+  perceptualHash: string;
+  color: ColorMetrics;
+  palette: PaletteSwatch[];
+};
+
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const clampSigned = (value: number) => Math.min(1, Math.max(-1, value));
+
+export const decodeGrayscale = async (sourcePath: string): Promise<GrayscaleImage> => {
+  const { data, info } = await sharp(sourcePath, { failOn: "none" })
+    .rotate()
+    .resize({ width: ANALYSIS_EDGE, height: ANALYSIS_EDGE, fit: "inside", withoutEnlargement: true })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+};
+
+const laplacianVariance = ({ data, width, height }: GrayscaleImage) => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const index = y * width + x;
+      const value =
+        data[index - width] + data[index + width] + data[index - 1] + data[index + 1] - 4 * data[index];
+      sum += value;
+      sumSquares += value * value;
+      count += 1;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+// Immerkær's fast noise estimate: convolve with a mask that cancels edges
+// and flat gradients so what remains is (mostly) sensor noise.
+const noiseSigma = ({ data, width, height }: GrayscaleImage) => {
+  if (width < 3 || height < 3) return 0;
+  let total = 0;
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const index = y * width + x;
+      const value =
+        data[index - width - 1] -
+        2 * data[index - width] +
+        data[index - width + 1] -
+        2 * data[index - 1] +
+        4 * data[index] -
+        2 * data[index + 1] +
+        data[index + width - 1] -
+        2 * data[index + width] +
+        data[index + width + 1];
+      total += Math.abs(value);
+    }
+  }
+  return (Math.sqrt(Math.PI / 2) * total) / (6 * (width - 2) * (height - 2));
+};
+
+const exposureStats = ({ data }: GrayscaleImage) => {
+  let sum = 0;
+  let clipped = 0;
+  for (const value of data) {
+    sum += value;
+    if (value <= SHADOW_CLIP || value >= HIGHLIGHT_CLIP) clipped += 1;
+  }
+  const meanLuminance = data.length ? sum / data.length / 255 : TARGET_LUMINANCE;
+  return {
+    exposure: clamp(1 - Math.abs(meanLuminance - TARGET_LUMINANCE) / TARGET_LUMINANCE),
+    clipping: data.length ? clipped / data.length : 0,
+  };
+};
+
+export const measureSharpness = (image: GrayscaleImage) =>
+  clamp(1 - Math.exp(-laplacianVariance(image) / SHARPNESS_SCALE));
+
+export const measureTechnicalQuality = (image: GrayscaleImage): TechnicalAnalysis => {
+  const { exposure, clipping } = exposureStats(image);
+  return {
+    sharpness: measureSharpness(image),
+    exposure: clamp(exposure - clipping),
+    clipping,
+    noise: clamp(noiseSigma(image) / NOISE_SCALE),
+  };
+};
+
+const cellAverage = (
+  { data, width }: GrayscaleImage,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number,
+) => {
+  let sum = 0;
+  for (let y = top; y < bottom; y += 1) {
+    for (let x = left; x < right; x += 1) sum += data[y * width + x];
+  }
+  const area = (right - left) * (bottom - top);
+  return area > 0 ? sum / area : 0;
+};
+
+/**
+ * 64-bit difference hash: shrink to 9×8, then record whether each cell is
+ * brighter than its right-hand neighbour. Frames of the same moment land
+ * within a few bits of each other regardless of small exposure shifts.
+ */
+export const differenceHash = (image: GrayscaleImage) => {
+  const cells: number[] = [];
+  for (let row = 0; row < HASH_ROWS; row += 1) {
+    const top = Math.floor((row * image.height) / HASH_ROWS);
+    const bottom = Math.max(top + 1, Math.floor(((row + 1) * image.height) / HASH_ROWS));
+    for (let column = 0; column < HASH_COLUMNS; column += 1) {
+      const left = Math.floor((column * image.width) / HASH_COLUMNS);
+      const right = Math.max(left + 1, Math.floor(((column + 1) * image.width) / HASH_COLUMNS));
+      cells.push(cellAverage(image, left, top, right, bottom));
+    }
+  }
+
+  let hash = "";
+  let nibble = 0;
+  let bits = 0;
+  for (let row = 0; row < HASH_ROWS; row += 1) {
+    for (let column = 0; column < HASH_COLUMNS - 1; column += 1) {
+      const index = row * HASH_COLUMNS + column;
+      nibble = (nibble << 1) | (cells[index] > cells[index + 1] ? 1 : 0);
+      bits += 1;
+      if (bits === 4) {
+        hash += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hash;
+};
+
+const decodeColor = async (sourcePath: string) =>
+  sharp(sourcePath, { failOn: "none" })
+    .rotate()
+    .resize({ width: COLOR_EDGE, height: COLOR_EDGE, fit: "inside", withoutEnlargement: true })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer();
+
+const toHex = (channels: number[]) =>
+  `#${channels.map((value) => Math.round(value).toString(16).padStart(2, "0")).join("")}`;
+
+/**
+ * White balance by the grey-world assumption: the average of the mid-tones
+ * should be neutral, so a red–blue imbalance reads as warmth and a
+ * green–magenta one as tint. Clipped shadows and highlights carry no colour
+ * and are skipped. The palette is the most common cells of a 3-bit-per-
+ * channel histogram, each shown as the mean colour of its pixels.
+ */
+export const measureColor = (rgb: Uint8Array): Pick<ImageAnalysis, "color" | "palette"> => {
+  const pixels = Math.floor(rgb.length / 3);
+  const balance = [0, 0, 0];
+  let saturationSum = 0;
+  const cells = new Map<number, { count: number; sums: number[] }>();
+  const shift = 8 - PALETTE_BITS;
+
+  for (let index = 0; index < pixels; index += 1) {
+    const channels = [rgb[index * 3], rgb[index * 3 + 1], rgb[index * 3 + 2]];
+    const [red, green, blue] = channels;
+    const max = Math.max(red, green, blue);
+    saturationSum += max === 0 ? 0 : (max - Math.min(red, green, blue)) / max;
+
+    const luma = 0.299 * red + 0.587 * green + 0.114 * blue;
+    if (luma >= BALANCE_MIN_LUMA && luma <= BALANCE_MAX_LUMA) {
+      channels.forEach((value, channel) => (balance[channel] += value));
+    }
+
+    const key =
+      ((red >> shift) << (PALETTE_BITS * 2)) | ((green >> shift) << PALETTE_BITS) | (blue >> shift);
+    const cell = cells.get(key) ?? { count: 0, sums: [0, 0, 0] };
+    cell.count += 1;
+    channels.forEach((value, channel) => (cell.sums[channel] += value));
+    cells.set(key, cell);
+  }
+
+  const [red, green, blue] = balance;
+  const imbalance = (a: number, b: number) =>
+    a + b > 0 ? clampSigned(((a - b) / (a + b)) * BALANCE_SCALE) : 0;
+  const color = {
+    warmth: imbalance(red, blue),
+    tint: imbalance((red + blue) / 2, green),
+    saturation: pixels > 0 ? saturationSum / pixels : 0,
+  };
+  const palette = Array.from(cells.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, PALETTE_SIZE)
+    .map(({ count, sums }) => ({
+      color: toHex(sums.map((sum) => sum / count)),
+      share: count / pixels,
+    }))
+    .filter((swatch) => swatch.share >= MIN_SWATCH_SHARE);
+  return { color, palette };
+};
+
+/**
+ * Decodes a frame on the CPU and scores its technical quality. Works on a
+ * 1024px copy: enough detail to separate missed focus from a sharp frame
+ * without decoding every original at full resolution. Colour only needs a
+ * 128px copy.
+ */
+export const analyzeImage = async (sourcePath: string): Promise<ImageAnalysis> => {
+  const [image, rgb] = await Promise.all([decodeGrayscale(sourcePath), decodeColor(sourcePath)]);
+  return {
+    quality: measureTechnicalQuality(image),
+    perceptualHash: differenceHash(image),
+    ...measureColor(rgb),
+  };
+};
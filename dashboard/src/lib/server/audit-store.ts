@@ -0,0 +1,32 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { isCurationChange, type AuditEntry, type AuditEntryInput } from "@/lib/curation-history";
+import { dataRoot } from "./config";
+import { readJson, updateJson } from "./json-store";
+
+const auditPath = (projectId: string) => path.join(dataRoot, "audit", `${projectId}.json`);
+
+/** Skips entries recorded before changes were validated, so one bad POST can't break exports. */
+export const getAuditLog = async (projectId: string): Promise<AuditEntry[]> =>
+  ((await readJson<AuditEntry[]>(auditPath(projectId))) ?? []).filter((entry) =>
+    entry.changes.every(isCurationChange),
+  );
+
+/**
+ * Append-only: entries are never edited or removed once recorded. Times come
+ * from the server clock, since the log has to hold up in client disputes.
+ */
+export const appendAuditEntries = (
+  projectId: string,
+  actor: string | null,
+  inputs: AuditEntryInput[],
+) =>
+  updateJson<AuditEntry[]>(auditPath(projectId), (entries = []) => [
+    ...entries,
+    ...inputs.map((input) => ({
+      ...input,
+      id: randomUUID(),
+      at: new Date().toISOString(),
+      actor,
+    })),
+  ]);
@@ -0,0 +1,8 @@
+import { photoDataset, type Photo } from "@/lib/photo-data";
+import { getShoot, ingestShoot } from "./ingest";
+
+export const loadCatalog = async (shootId: string | null): Promise<Photo[]> => {
+  if (!shootId) return photoDataset;
+  const shoot = await getShoot(shootId);
+  return shoot ? ingestShoot(shoot) : [];
+};
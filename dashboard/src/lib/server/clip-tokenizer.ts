@@ -0,0 +1,89 @@
+const CONTEXT_LENGTH = 77;
+const START_TOKEN = "<|startoftext|>";
+const END_TOKEN = "<|endoftext|>";
+const WORD_PATTERN =
+  /<\|startoftext\|>|<\|endoftext\|>|'s|'t|'re|'ve|'m|'ll|'d|\p{L}+|\p{N}|[^\s\p{L}\p{N}]+/giu;
+
+export type ClipTokens = {
+  ids: number[];
+  attentionMask: number[];
+};
+
+/**
+ * GPT-2's reversible byte-to-character table: printable bytes map to
+ * themselves and the rest are shifted past 255, so BPE never sees whitespace
+ * or control characters.
+ */
+const byteEncoder = (() => {
+  const printable = [
+    ...Array.from({ length: 94 }, (_, index) => 33 + index),
+    ...Array.from({ length: 12 }, (_, index) => 161 + index),
+    ...Array.from({ length: 82 }, (_, index) => 174 + index),
+  ];
+  const table: string[] = [];
+  let shifted = 0;
+  for (let byte = 0; byte < 256; byte += 1) {
+    table[byte] = String.fromCharCode(printable.includes(byte) ? byte : 256 + shifted++);
+  }
+  return table;
+})();
+
+/**
+ * Byte-pair tokenizer matching OpenAI CLIP's `SimpleTokenizer`, fed the
+ * `vocab.json` / `merges.txt` pair that ships with exported text encoders.
+ * Output is always 77 ids long: start token, text, end token, zero padding.
+ */
+export const createClipTokenizer = (vocab: Record<string, number>, merges: string[]) => {
+  const ranks = new Map(merges.map((merge, rank) => [merge, rank]));
+  const cache = new Map<string, string[]>();
+
+  const bpe = (word: string) => {
+    const cached = cache.get(word);
+    if (cached) return cached;
+    let parts = [...word.slice(0, -1), `${word.slice(-1)}</w>`];
+    while (parts.length > 1) {
+      let best: string | undefined;
+      let bestRank = Infinity;
+      for (let index = 0; index < parts.length - 1; index += 1) {
+        const rank = ranks.get(`${parts[index]} ${parts[index + 1]}`);
+        if (rank !== undefined && rank < bestRank) {
+          best = `${parts[index]} ${parts[index + 1]}`;
+          bestRank = rank;
+        }
+      }
+      if (!best) break;
+      const [first, second] = best.split(" ");
+      const merged: string[] = [];
+      for (let index = 0; index < parts.length; index += 1) {
+        if (parts[index] === first && parts[index + 1] === second) {
+          merged.push(first + second);
+          index += 1;
+        } else {
+          merged.push(parts[index]);
+        }
+      }
+      parts = merged;
+    }
+    cache.set(word, parts);
+    return parts;
+  };
+
+  const encode = (text: string): ClipTokens => {
+    const cleaned = text.replace(/\s+/g, " ").trim().toLowerCase();
+    const body = (cleaned.match(WORD_PATTERN) ?? []).flatMap((word) => {
+      const encoded = Array.from(new TextEncoder().encode(word), (byte) => byteEncoder[byte]);
+      return bpe(encoded.join("")).flatMap((part) => (part in vocab ? [vocab[part]] : []));
+    });
+    const ids = [vocab[START_TOKEN], ...body.slice(0, CONTEXT_LENGTH - 2), vocab[END_TOKEN]];
+    return {
+      ids: [...ids, ...Array<number>(CONTEXT_LENGTH - ids.length).fill(0)],
+      attentionMask: Array.from({ length: CONTEXT_LENGTH }, (_, index) =>
+        index < ids.length ? 1 : 0,
+      ),
+    };
+  };
+
+  return { contextLength: CONTEXT_LENGTH, encode };
+};
+
+export type ClipTokenizer = ReturnType<typeof createClipTokenizer>;
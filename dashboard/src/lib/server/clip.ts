@@ -0,0 +1,139 @@
+import { access, readFile } from "node:fs/promises";
+import path from "node:path";
+import type { InferenceSession, Tensor } from "onnxruntime-node";
+import sharp from "sharp";
+import { createClipTokenizer, type ClipTokenizer } from "./clip-tokenizer";
+import { clipModelDir } from "./config";
+
+const IMAGE_EDGE = 224;
+const PIXEL_MEAN = [0.48145466, 0.4578275, 0.40821073];
+const PIXEL_STD = [0.26862954, 0.26130258, 0.27577711];
+/** Four decimals keep rankings intact and the shoot manifest a third of the size. */
+const STORED_PRECISION = 1e4;
+
+type ClipModels = {
+  createTensor: (
+    type: "float32" | "int64",
+    data: Float32Array | BigInt64Array,
+    dims: number[],
+  ) => Tensor;
+  imageEncoder: InferenceSession;
+  textEncoder: InferenceSession;
+  tokenizer: ClipTokenizer;
+};
+
+let modelsPromise: Promise<ClipModels | undefined> | undefined;
+
+const loadModels = async (): Promise<ClipModels | undefined> => {
+  if (!clipModelDir) return undefined;
+  const imagePath = path.join(clipModelDir, "clip-image.onnx");
+  const textPath = path.join(clipModelDir, "clip-text.onnx");
+  const vocabPath = path.join(clipModelDir, "vocab.json");
+  const mergesPath = path.join(clipModelDir, "merges.txt");
+  try {
+    await Promise.all([imagePath, textPath, vocabPath, mergesPath].map((file) => access(file)));
+  } catch {
+    console.warn(`CLIP models not found in ${clipModelDir}; skipping semantic search`);
+    return undefined;
+  }
+
+  const [vocab, merges] = await Promise.all([
+    readFile(vocabPath, "utf8").then((text) => JSON.parse(text) as Record<string, number>),
+    readFile(mergesPath, "utf8").then((text) =>
+      text.split("\n").filter((line) => line && !line.startsWith("#version")),
+    ),
+  ]);
+  const ort = await import("onnxruntime-node");
+  const [imageEncoder, textEncoder] = await Promise.all([
+    ort.InferenceSession.create(imagePath),
+    ort.InferenceSession.create(textPath),
+  ]);
+  return {
+    createTensor: (type, data, dims) => new ort.Tensor(type, data, dims),
+    imageEncoder,
+    textEncoder,
+    tokenizer: createClipTokenizer(vocab, merges),
+  };
+};
+
+const clipModels = () => {
+  modelsPromise ??= loadModels();
+  return modelsPromise;
+};
+
+/** Prefers the projected `*_embeds` output over hidden states when an export has both. */
+const embeddingOutput = (session: InferenceSession, outputs: InferenceSession.OnnxValueMapType) => {
+  const name = session.outputNames.find((output) => output.endsWith("embeds"));
+  const vector = Array.from(outputs[name ?? session.outputNames[0]].data as Float32Array);
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((value) => value / norm);
+};
+
+/**
+ * Embeds a frame with the CLIP image encoder: a 224×224 centre crop,
+ * normalised with CLIP's channel statistics. Resolves to undefined when no
+ * CLIP models are configured, so ingest simply leaves the frame unindexed.
+ */
+export const embedImage = async (sourcePath: string): Promise<number[] | undefined> => {
+  const models = await clipModels();
+  if (!models) return undefined;
+
+  const data = await sharp(sourcePath, { failOn: "none" })
+    .rotate()
+    .resize(IMAGE_EDGE, IMAGE_EDGE, { fit: "cover", kernel: "cubic" })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer();
+  const pixels = IMAGE_EDGE * IMAGE_EDGE;
+  const planar = new Float32Array(pixels * 3);
+  for (let index = 0; index < pixels; index += 1) {
+    for (let channel = 0; channel < 3; channel += 1) {
+      planar[channel * pixels + index] =
+        (data[index * 3 + channel] / 255 - PIXEL_MEAN[channel]) / PIXEL_STD[channel];
+    }
+  }
+
+  const { imageEncoder } = models;
+  const outputs = await imageEncoder.run({
+    [imageEncoder.inputNames[0]]: models.createTensor("float32", planar, [
+      1,
+      3,
+      IMAGE_EDGE,
+      IMAGE_EDGE,
+    ]),
+  });
+  return embeddingOutput(imageEncoder, outputs).map(
+    (value) => Math.round(value * STORED_PRECISION) / STORED_PRECISION,
+  );
+};
+
+/**
+ * Embeds a search phrase into the same space as `embedImage`. Exports that
+ * take an `attention_mask` alongside `input_ids` get one.
+ */
+export const embedText = async (text: string): Promise<number[] | undefined> => {
+  const models = await clipModels();
+  if (!models) return undefined;
+
+  const { textEncoder, tokenizer } = models;
+  const { ids, attentionMask } = tokenizer.encode(text);
+  const dims = [1, tokenizer.contextLength];
+  const idsInput =
+    textEncoder.inputNames.find((name) => name !== "attention_mask") ?? textEncoder.inputNames[0];
+  const feeds: Record<string, Tensor> = {
+    [idsInput]: models.createTensor(
+      "int64",
+      BigInt64Array.from(ids, (id) => BigInt(id)),
+      dims,
+    ),
+  };
+  if (textEncoder.inputNames.includes("attention_mask")) {
+    feeds.attention_mask = models.createTensor(
+      "int64",
+      BigInt64Array.from(attentionMask, (flag) => BigInt(flag)),
+      dims,
+    );
+  }
+  return embeddingOutput(textEncoder, await textEncoder.run(feeds));
+};
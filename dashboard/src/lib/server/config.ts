@@ -0,0 +1,17 @@
+import path from "node:path";
+
+export const shootRoot = process.env.CURATOR_SHOOT_ROOT
+  ? path.resolve(process.env.CURATOR_SHOOT_ROOT)
+  : undefined;
+
+export const dataRoot = path.resolve(process.env.CURATOR_DATA_DIR ?? path.join(process.cwd(), "data"));
+
+export const shootCacheDir = (shootId: string) => path.join(dataRoot, "shoots", shootId);
+
+export const faceModelDir = process.env.CURATOR_FACE_MODELS
+  ? path.resolve(process.env.CURATOR_FACE_MODELS)
+  : undefined;
+
+export const clipModelDir = process.env.CURATOR_CLIP_MODELS
+  ? path.resolve(process.env.CURATOR_CLIP_MODELS)
+  : undefined;
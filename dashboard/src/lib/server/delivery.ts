@@ -0,0 +1,107 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+import {
+  formatDeliveryName,
+  manifestToCsv,
+  type DeliveryOptions,
+  type ManifestFrame,
+} from "@/lib/delivery";
+import type { Project } from "@/lib/projects";
+import type { RankedPhoto } from "@/lib/scoring";
+import type { Shoot } from "@/lib/shoots";
+import { resolvePhotoAsset } from "./ingest";
+import { createZipStream, type ZipEntry } from "./zip";
+
+const uniqueName = (used: Set<string>, baseName: string) => {
+  let name = baseName;
+  for (let suffix = 2; used.has(name.toLowerCase()); suffix += 1) {
+    name = `${baseName}-${suffix}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+async function* deliveryEntries(
+  shoot: Shoot,
+  project: Project,
+  rankings: RankedPhoto[],
+  options: DeliveryOptions,
+): AsyncGenerator<ZipEntry> {
+  const usedNames = new Set<string>();
+  const frames: ManifestFrame[] = [];
+
+  for (const [position, { photo, score }] of rankings.entries()) {
+    const sourcePath = await resolvePhotoAsset(shoot, photo.id, "original");
+    if (!sourcePath) continue;
+
+    const index = position + 1;
+    const baseName = uniqueName(
+      usedNames,
+      formatDeliveryName(options.naming, {
+        index,
+        total: rankings.length,
+        project: project.name,
+        photo,
+        score,
+      }),
+    );
+    const original = await readFile(sourcePath);
+    const modifiedAt = (await stat(sourcePath)).mtime;
+    const originalFile = options.includeOriginals
+      ? `originals/${baseName}${path.extname(sourcePath).toLowerCase()}`
+      : null;
+    const webFile = options.webEdge ? `web/${baseName}.jpg` : null;
+
+    if (originalFile) yield { name: originalFile, data: original, modifiedAt };
+    if (webFile && options.webEdge) {
+      const web = await sharp(original, { failOn: "none" })
+        .rotate()
+        .resize({
+          width: options.webEdge,
+          height: options.webEdge,
+          fit: "inside",
+          withoutEnlargement: true,
+        })
+        .withMetadata()
+        .jpeg({ quality: 85, mozjpeg: true })
+        .toBuffer();
+      yield { name: webFile, data: web, modifiedAt };
+    }
+
+    frames.push({
+      index,
+      id: photo.id,
+      title: photo.title,
+      originalFile,
+      webFile,
+      score,
+      shotType: photo.shotType,
+      mood: photo.mood,
+      location: photo.location,
+      capturedAt: photo.capturedAt,
+      tags: photo.tags,
+    });
+  }
+
+  const manifest = {
+    project: project.name,
+    shoot: shoot.name,
+    exportedAt: new Date().toISOString(),
+    options,
+    frames,
+  };
+  yield { name: "manifest.json", data: Buffer.from(JSON.stringify(manifest, null, 2)) };
+  yield { name: "manifest.csv", data: Buffer.from(manifestToCsv(frames)) };
+}
+
+/**
+ * Streams the delivery ZIP for an already ranked shortlist: originals, web
+ * copies and a JSON/CSV manifest, in ranking order.
+ */
+export const createDeliveryArchive = (
+  shoot: Shoot,
+  project: Project,
+  rankings: RankedPhoto[],
+  options: DeliveryOptions,
+) => createZipStream(deliveryEntries(shoot, project, rankings, options));
@@ -0,0 +1,69 @@
+const EXIF_IFD_POINTER = 0x8769;
+const DATE_TIME = 0x0132;
+const DATE_TIME_ORIGINAL = 0x9003;
+const OFFSET_TIME_ORIGINAL = 0x9011;
+const ASCII = 2;
+
+type IfdEntries = Map<number, string>;
+
+const readAsciiTags = (tiff: Buffer, offset: number, littleEndian: boolean): IfdEntries => {
+  const entries: IfdEntries = new Map();
+  if (offset + 2 > tiff.length) return entries;
+
+  const readUInt16 = (at: number) => (littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+  const readUInt32 = (at: number) => (littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+
+  const count = readUInt16(offset);
+  for (let index = 0; index < count; index += 1) {
+    const entry = offset + 2 + index * 12;
+    if (entry + 12 > tiff.length) break;
+    const tag = readUInt16(entry);
+    const type = readUInt16(entry + 2);
+    const length = readUInt32(entry + 4);
+
+    if (tag === EXIF_IFD_POINTER) {
+      entries.set(tag, String(readUInt32(entry + 8)));
+      continue;
+    }
+    if (type !== ASCII) continue;
+
+    const start = length > 4 ? readUInt32(entry + 8) : entry + 8;
+    if (start + length > tiff.length) continue;
+    entries.set(tag, tiff.toString("ascii", start, start + length).replace(/\0+$/, "").trim());
+  }
+  return entries;
+};
+
+const toIsoTimestamp = (exifDate: string, offset?: string) => {
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(exifDate);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  if (year === "0000") return undefined;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : "";
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+};
+
+/**
+ * Reads the capture timestamp from a raw EXIF block (as returned by sharp's
+ * `metadata().exif`). Falls back to the IFD0 modification date when the
+ * camera did not record `DateTimeOriginal`.
+ */
+export const readCaptureTime = (exif: Buffer | undefined): string | undefined => {
+  if (!exif || exif.length < 8) return undefined;
+
+  const tiff = exif.toString("ascii", 0, 4) === "Exif" ? exif.subarray(6) : exif;
+  const byteOrder = tiff.toString("ascii", 0, 2);
+  if (byteOrder !== "II" && byteOrder !== "MM") return undefined;
+  const littleEndian = byteOrder === "II";
+
+  const ifd0Offset = littleEndian ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4);
+  const ifd0 = readAsciiTags(tiff, ifd0Offset, littleEndian);
+  const exifOffset = ifd0.get(EXIF_IFD_POINTER);
+  const exifIfd = exifOffset ? readAsciiTags(tiff, Number(exifOffset), littleEndian) : new Map();
+
+  const original = exifIfd.get(DATE_TIME_ORIGINAL);
+  if (original) return toIsoTimestamp(original, exifIfd.get(OFFSET_TIME_ORIGINAL));
+
+  const modified = ifd0.get(DATE_TIME);
+  return modified ? toIsoTimestamp(modified) : undefined;
+};
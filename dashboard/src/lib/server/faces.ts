@@ -0,0 +1,354 @@
+import { access } from "node:fs/promises";
+import path from "node:path";
+import type { InferenceSession, Tensor } from "onnxruntime-node";
+import sharp from "sharp";
+import type { FaceBox } from "@/lib/people";
+import { measureSharpness } from "./analysis";
+import { faceModelDir } from "./config";
+
+const DECODE_EDGE = 1024;
+const DETECTOR_WIDTH = 320;
+const DETECTOR_HEIGHT = 240;
+const DETECTION_THRESHOLD = 0.7;
+const OVERLAP_THRESHOLD = 0.3;
+const MIN_FACE_EDGE = 0.02;
+const EMBEDDING_EDGE = 112;
+const CROP_MARGIN = 0.15;
+const SUBJECT_EDGE = 160;
+const EYE_EDGE = 24;
+const EYE_PATCH = 0.3;
+const eyeCenters = [
+  { x: 0.3, y: 0.4 },
+  { x: 0.7, y: 0.4 },
+];
+const SAME_PERSON_SIMILARITY = 0.5;
+const MIN_PERSON_FACES = 2;
+
+export type FaceDetection = {
+  box: FaceBox;
+  score: number;
+  embedding: number[];
+  eyesOpen: number | null;
+  sharpness: number;
+};
+
+/** `previousId` is the person the face was assigned to by the last ingest, if any. */
+export type FaceEmbedding = {
+  key: string;
+  embedding: number[];
+  previousId?: string | null;
+};
+
+type FaceModels = {
+  createTensor: (data: Float32Array, dims: number[]) => Tensor;
+  detector: InferenceSession;
+  embedder: InferenceSession;
+  eyeClassifier: InferenceSession | null;
+};
+
+type RgbImage = {
+  data: Buffer;
+  width: number;
+  height: number;
+};
+
+let modelsPromise: Promise<FaceModels | undefined> | undefined;
+
+const loadModels = async (): Promise<FaceModels | undefined> => {
+  if (!faceModelDir) return undefined;
+  const detectorPath = path.join(faceModelDir, "face-detector.onnx");
+  const embedderPath = path.join(faceModelDir, "face-embedder.onnx");
+  try {
+    await Promise.all([access(detectorPath), access(embedderPath)]);
+  } catch {
+    console.warn(`Face models not found in ${faceModelDir}; skipping face detection`);
+    return undefined;
+  }
+
+  const eyeClassifierPath = path.join(faceModelDir, "eye-state.onnx");
+  const hasEyeClassifier = await access(eyeClassifierPath).then(
+    () => true,
+    () => false,
+  );
+
+  const ort = await import("onnxruntime-node");
+  const [detector, embedder, eyeClassifier] = await Promise.all([
+    ort.InferenceSession.create(detectorPath),
+    ort.InferenceSession.create(embedderPath),
+    hasEyeClassifier ? ort.InferenceSession.create(eyeClassifierPath) : null,
+  ]);
+  return {
+    createTensor: (data, dims) => new ort.Tensor("float32", data, dims),
+    detector,
+    embedder,
+    eyeClassifier,
+  };
+};
+
+const faceModels = () => {
+  modelsPromise ??= loadModels();
+  return modelsPromise;
+};
+
+/** Interleaved RGB bytes to a normalised 1×3×H×W tensor buffer. */
+const toPlanar = (data: Buffer, mean: number, scale: number) => {
+  const pixels = data.length / 3;
+  const planar = new Float32Array(data.length);
+  for (let index = 0; index < pixels; index += 1) {
+    for (let channel = 0; channel < 3; channel += 1) {
+      planar[channel * pixels + index] = (data[index * 3 + channel] - mean) / scale;
+    }
+  }
+  return planar;
+};
+
+const rawInput = ({ width, height }: RgbImage) => ({
+  raw: { width, height, channels: 3 as const },
+});
+
+/** Pixel rectangle for a 0–1 box, clamped to the image and at least one pixel wide. */
+const pixelRegion = (image: RgbImage, box: FaceBox) => {
+  const left = Math.min(image.width - 1, Math.max(0, Math.round(box.x * image.width)));
+  const top = Math.min(image.height - 1, Math.max(0, Math.round(box.y * image.height)));
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(image.width - left, Math.round(box.width * image.width))),
+    height: Math.max(1, Math.min(image.height - top, Math.round(box.height * image.height))),
+  };
+};
+
+const greyRegion = async (image: RgbImage, box: FaceBox, edge: number) => {
+  const data = await sharp(image.data, rawInput(image))
+    .extract(pixelRegion(image, box))
+    .resize(edge, edge, { fit: "fill" })
+    .greyscale()
+    .raw()
+    .toBuffer();
+  return { data, width: edge, height: edge };
+};
+
+const overlap = (a: FaceBox, b: FaceBox) => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+const suppressOverlaps = (candidates: Array<{ box: FaceBox; score: number }>) => {
+  const kept: typeof candidates = [];
+  [...candidates]
+    .sort((a, b) => b.score - a.score)
+    .forEach((candidate) => {
+      if (kept.every((face) => overlap(face.box, candidate.box) < OVERLAP_THRESHOLD)) {
+        kept.push(candidate);
+      }
+    });
+  return kept;
+};
+
+/**
+ * Runs an UltraFace-style detector: one 320×240 pass whose outputs are
+ * per-anchor [background, face] scores and corner boxes in 0–1 coordinates.
+ */
+const findFaces = async (models: FaceModels, image: RgbImage) => {
+  const resized = await sharp(image.data, rawInput(image))
+    .resize(DETECTOR_WIDTH, DETECTOR_HEIGHT, { fit: "fill" })
+    .raw()
+    .toBuffer();
+  const { detector } = models;
+  const outputs = await detector.run({
+    [detector.inputNames[0]]: models.createTensor(toPlanar(resized, 127, 128), [
+      1,
+      3,
+      DETECTOR_HEIGHT,
+      DETECTOR_WIDTH,
+    ]),
+  });
+  const scores = outputs[detector.outputNames[0]].data as Float32Array;
+  const corners = outputs[detector.outputNames[1]].data as Float32Array;
+
+  const candidates: Array<{ box: FaceBox; score: number }> = [];
+  for (let anchor = 0; anchor < scores.length / 2; anchor += 1) {
+    const score = scores[anchor * 2 + 1];
+    if (score < DETECTION_THRESHOLD) continue;
+    const left = Math.max(0, corners[anchor * 4]);
+    const top = Math.max(0, corners[anchor * 4 + 1]);
+    const right = Math.min(1, corners[anchor * 4 + 2]);
+    const bottom = Math.min(1, corners[anchor * 4 + 3]);
+    if (right - left < MIN_FACE_EDGE || bottom - top < MIN_FACE_EDGE) continue;
+    candidates.push({ box: { x: left, y: top, width: right - left, height: bottom - top }, score });
+  }
+  return suppressOverlaps(candidates);
+};
+
+const embedFace = async (models: FaceModels, image: RgbImage, box: FaceBox) => {
+  const edge = Math.max(box.width * image.width, box.height * image.height) * (1 + CROP_MARGIN * 2);
+  const size = Math.max(1, Math.min(Math.round(edge), image.width, image.height));
+  const centerX = (box.x + box.width / 2) * image.width;
+  const centerY = (box.y + box.height / 2) * image.height;
+  const left = Math.round(Math.min(Math.max(0, centerX - size / 2), image.width - size));
+  const top = Math.round(Math.min(Math.max(0, centerY - size / 2), image.height - size));
+
+  const crop = await sharp(image.data, rawInput(image))
+    .extract({ left, top, width: size, height: size })
+    .resize(EMBEDDING_EDGE, EMBEDDING_EDGE)
+    .raw()
+    .toBuffer();
+  const { embedder } = models;
+  const outputs = await embedder.run({
+    [embedder.inputNames[0]]: models.createTensor(toPlanar(crop, 127.5, 128), [
+      1,
+      3,
+      EMBEDDING_EDGE,
+      EMBEDDING_EDGE,
+    ]),
+  });
+  const vector = Array.from(outputs[embedder.outputNames[0]].data as Float32Array);
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((value) => value / norm);
+};
+
+/**
+ * Subject blur is judged on the face alone, resampled to a fixed size so a
+ * small face in the back row and a close-up are measured on the same scale.
+ */
+const faceSharpness = async (image: RgbImage, box: FaceBox) =>
+  measureSharpness(await greyRegion(image, box, SUBJECT_EDGE));
+
+/**
+ * Probability that both eyes are open, from an optional eye-state classifier
+ * fed 24×24 greyscale patches at the usual eye positions of an upright face.
+ * The model may return P(open) alone or [P(closed), P(open)].
+ */
+const eyesOpenProbability = async (models: FaceModels, image: RgbImage, box: FaceBox) => {
+  const { eyeClassifier } = models;
+  if (!eyeClassifier) return null;
+  const patch = EYE_PATCH * box.width;
+  const probabilities = await Promise.all(
+    eyeCenters.map(async (center) => {
+      const eye = await greyRegion(
+        image,
+        {
+          x: box.x + center.x * box.width - patch / 2,
+          y: box.y + center.y * box.height - (patch * image.width) / image.height / 2,
+          width: patch,
+          height: (patch * image.width) / image.height,
+        },
+        EYE_EDGE,
+      );
+      const input = Float32Array.from(eye.data, (value) => value / 255);
+      const outputs = await eyeClassifier.run({
+        [eyeClassifier.inputNames[0]]: models.createTensor(input, [1, 1, EYE_EDGE, EYE_EDGE]),
+      });
+      const scores = outputs[eyeClassifier.outputNames[0]].data as Float32Array;
+      return scores[scores.length - 1];
+    }),
+  );
+  return Math.min(...probabilities);
+};
+
+/**
+ * Finds faces in a frame, embeds each one for clustering and checks it for
+ * closed eyes and subject blur. Resolves to undefined when no face models are
+ * configured, so ingest keeps `faces` as it was instead of claiming every
+ * frame is empty.
+ */
+export const detectFaces = async (sourcePath: string): Promise<FaceDetection[] | undefined> => {
+  const models = await faceModels();
+  if (!models) return undefined;
+
+  const { data, info } = await sharp(sourcePath, { failOn: "none" })
+    .rotate()
+    .resize({ width: DECODE_EDGE, height: DECODE_EDGE, fit: "inside", withoutEnlargement: true })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const image = { data, width: info.width, height: info.height };
+
+  const faces = await findFaces(models, image);
+  return Promise.all(
+    faces.map(async (face) => ({
+      ...face,
+      embedding: await embedFace(models, image, face.box),
+      eyesOpen: await eyesOpenProbability(models, image, face.box),
+      sharpness: await faceSharpness(image, face.box),
+    })),
+  );
+};
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((value, index) => {
+    dot += value * b[index];
+    normA += value * value;
+    normB += b[index] * b[index];
+  });
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+type FaceCluster = { centroid: number[]; faces: FaceEmbedding[] };
+
+/**
+ * The id most of the cluster's faces had last time that no larger cluster has
+ * claimed, so people keep their names and brief rules when frames are added
+ * or the clustering order shifts. New people are named after their first face.
+ */
+const clusterId = ({ faces }: FaceCluster, claimed: Set<string>) => {
+  const votes = new Map<string, number>();
+  faces.forEach(({ previousId }) => {
+    if (previousId && !claimed.has(previousId)) {
+      votes.set(previousId, (votes.get(previousId) ?? 0) + 1);
+    }
+  });
+  const [inherited] = [...votes].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  return (
+    inherited?.[0] ??
+    faces.map(({ key }) => `person-${key}`).find((id) => !claimed.has(id)) ??
+    `person-${faces[0].key}-${claimed.size}`
+  );
+};
+
+/**
+ * Groups face embeddings into people by greedy centroid clustering: each face
+ * joins the most similar existing person above the threshold or starts a new
+ * one. Faces seen only once (guests passing through the background) are left
+ * unassigned. Ids carry over from `previousId` by majority, largest cluster
+ * first.
+ */
+export const clusterFaces = (faces: FaceEmbedding[]): Map<string, string> => {
+  const clusters: FaceCluster[] = [];
+  faces.forEach((face) => {
+    let best: FaceCluster | undefined;
+    let bestSimilarity = SAME_PERSON_SIMILARITY;
+    clusters.forEach((cluster) => {
+      const similarity = cosine(cluster.centroid, face.embedding);
+      if (similarity >= bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    });
+    if (best) {
+      best.faces.push(face);
+      best.centroid = best.centroid.map((value, index) => value + face.embedding[index]);
+    } else {
+      clusters.push({ centroid: [...face.embedding], faces: [face] });
+    }
+  });
+
+  const claimed = new Set<string>();
+  return new Map(
+    clusters
+      .filter((cluster) => cluster.faces.length >= MIN_PERSON_FACES)
+      .sort((a, b) => b.faces.length - a.faces.length)
+      .flatMap((cluster) => {
+        const id = clusterId(cluster, claimed);
+        claimed.add(id);
+        return cluster.faces.map(({ key }) => [key, id] as const);
+      }),
+  );
+};
@@ -0,0 +1,80 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import path from "node:path";
+import {
+  emptyClientResponse,
+  type ClientResponseUpdate,
+  type ProofingGallery,
+} from "@/lib/proofing";
+import type { Project } from "@/lib/projects";
+import { dataRoot } from "./config";
+import { readJson, updateJson } from "./json-store";
+import { linkGallery } from "./project-store";
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{24}$/;
+
+const galleriesDir = path.join(dataRoot, "galleries");
+
+const galleryPath = (token: string) => path.join(galleriesDir, `${token}.json`);
+
+export const getGallery = async (token: string) =>
+  TOKEN_PATTERN.test(token) ? readJson<ProofingGallery>(galleryPath(token)) : undefined;
+
+/**
+ * Publishes the shortlist as the project's proofing gallery. The token is
+ * minted once per project so a link already sent to the client keeps working
+ * and keeps its responses when the shortlist changes.
+ */
+export const publishGallery = async (
+  project: Project,
+  photoIds: string[],
+  title: string,
+): Promise<ProofingGallery> => {
+  const token = project.galleryToken ?? randomBytes(18).toString("base64url");
+  const now = new Date().toISOString();
+  const gallery = (await updateJson<ProofingGallery>(galleryPath(token), (existing) =>
+    existing
+      ? { ...existing, title, photoIds, updatedAt: now }
+      : {
+          token,
+          projectId: project.id,
+          title,
+          photoIds,
+          createdAt: now,
+          updatedAt: now,
+          responses: {},
+        },
+  )) as ProofingGallery;
+
+  if (!project.galleryToken) await linkGallery(project.id, token);
+  return gallery;
+};
+
+/**
+ * Applies one heart, pass or comment. Responses arrive in quick bursts from
+ * the proofing page, so each one is a serialised update of the gallery file.
+ */
+export const recordClientResponse = (
+  token: string,
+  { photoId, verdict, comment }: ClientResponseUpdate,
+): Promise<ProofingGallery | undefined> => {
+  if (!TOKEN_PATTERN.test(token)) return Promise.resolve(undefined);
+  return updateJson<ProofingGallery>(galleryPath(token), (gallery) => {
+    if (!gallery || !gallery.photoIds.includes(photoId)) return undefined;
+
+    const current = gallery.responses[photoId] ?? emptyClientResponse;
+    const now = new Date().toISOString();
+    return {
+      ...gallery,
+      updatedAt: now,
+      responses: {
+        ...gallery.responses,
+        [photoId]: {
+          verdict: verdict === undefined ? current.verdict : verdict,
+          comments: comment
+            ? [...current.comments, { id: randomUUID(), body: comment, createdAt: now }]
+            : current.comments,
+        },
+      },
+    };
+  });
+};
@@ -0,0 +1,382 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+import type { Photo } from "@/lib/photo-data";
+import type { AnalyzedMetrics, AnalyzedPhoto } from "@/lib/photo-metrics";
+import { photoAssetUrl, type PhotoVariant, type Shoot } from "@/lib/shoots";
+import { analyzeImage } from "./analysis";
+import { embedImage } from "./clip";
+import { dataRoot, shootCacheDir, shootRoot } from "./config";
+import { readCaptureTime } from "./exif";
+import { clusterFaces, detectFaces, type FaceDetection } from "./faces";
+import { updateJson } from "./json-store";
+import { createVectorIndex, type VectorIndex } from "./vector-index";
+
+const MANIFEST_VERSION = 7;
+const INGEST_CONCURRENCY = 4;
+const JPEG_PATTERN = /\.jpe?g$/i;
+
+const derivativeEdges: Record<Exclude<PhotoVariant, "original">, number> = {
+  thumbnail: 640,
+  preview: 2048,
+};
+
+type ManifestEntry = {
+  relativePath: string;
+  size: number;
+  modifiedAt: number;
+  photo: AnalyzedPhoto;
+  faceEmbeddings?: number[][];
+  imageEmbedding?: number[];
+};
+
+export type SourceStats = Pick<ManifestEntry, "size" | "modifiedAt">;
+
+type ShootManifest = {
+  version: number;
+  entries: ManifestEntry[];
+};
+
+const pendingIngests = new Map<string, Promise<Photo[]>>();
+const imageIndexes = new Map<string, Promise<VectorIndex>>();
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+const photoIdFor = (relativePath: string) =>
+  createHash("sha1").update(relativePath).digest("hex").slice(0, 12);
+
+const nameHash = (name: string) => createHash("sha1").update(name).digest("hex").slice(0, 8);
+
+const shootIdsPath = path.join(dataRoot, "shoot-ids.json");
+
+const manifestPath = (shootId: string) => path.join(shootCacheDir(shootId), "manifest.json");
+
+const derivativePath = (shootId: string, photoId: string, variant: keyof typeof derivativeEdges) =>
+  path.join(shootCacheDir(shootId), variant, `${photoId}.jpg`);
+
+/**
+ * The id each shoot folder was first given, by folder name. Ids are derived
+ * once and then kept, so projects, caches and galleries never move to
+ * another folder when a new one with a similar name turns up.
+ */
+const assignShootIds = async (names: string[]): Promise<Map<string, string>> => {
+  let assigned = new Map<string, string>();
+  await updateJson<Record<string, string>>(shootIdsPath, (current) => {
+    assigned = new Map(Object.entries(current ?? {}));
+    const taken = new Set(assigned.values());
+    const missing = names.filter((name) => !assigned.has(name));
+    missing.forEach((name) => {
+      const slug = slugify(name) || `shoot-${nameHash(name)}`;
+      const id = taken.has(slug) ? `${slug}-${nameHash(name)}` : slug;
+      assigned.set(name, id);
+      taken.add(id);
+    });
+    return missing.length > 0 ? Object.fromEntries(assigned) : undefined;
+  });
+  return assigned;
+};
+
+/**
+ * Every shoot folder as a `Shoot`. A new folder's id is its name's slug; a
+ * name with no ASCII letters or digits ("婚礼") gets `shoot-<hash>` instead,
+ * and a slug some other folder already holds gets `-<hash>` appended.
+ */
+export const listShoots = async (): Promise<Shoot[]> => {
+  const root = shootRoot;
+  if (!root) return [];
+  const entries = await readdir(root, { withFileTypes: true });
+  const names = entries
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => entry.name)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const ids = await assignShootIds(names);
+  return names
+    .map((name) => ({ id: ids.get(name) as string, name, sourceDir: path.join(root, name) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getShoot = async (shootId: string) =>
+  (await listShoots()).find((shoot) => shoot.id === shootId);
+
+const walkJpegs = async (root: string, relativeDir = ""): Promise<string[]> => {
+  const entries = await readdir(path.join(root, relativeDir), { withFileTypes: true });
+  const nested = await Promise.all(
+    entries
+      .filter((entry) => !entry.name.startsWith("."))
+      .map(async (entry) => {
+        const relativePath = path.join(relativeDir, entry.name);
+        if (entry.isDirectory()) return walkJpegs(root, relativePath);
+        return entry.isFile() && JPEG_PATTERN.test(entry.name) ? [relativePath] : [];
+      }),
+  );
+  return nested.flat();
+};
+
+const readManifest = async (shootId: string): Promise<ShootManifest | undefined> => {
+  try {
+    const manifest = JSON.parse(await readFile(manifestPath(shootId), "utf8")) as ShootManifest;
+    return manifest.version === MANIFEST_VERSION ? manifest : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const writeDerivative = async (sourcePath: string, targetPath: string, maxEdge: number) => {
+  await mkdir(path.dirname(targetPath), { recursive: true });
+  await sharp(sourcePath, { failOn: "none" })
+    .rotate()
+    .resize({ width: maxEdge, height: maxEdge, fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 80, mozjpeg: true })
+    .toFile(targetPath);
+};
+
+/** The parts of a photo that come from face detection; none of them is known without models. */
+const faceFields = (detections: FaceDetection[] | undefined) => {
+  const subject = detections?.reduce<FaceDetection | undefined>(
+    (largest, face) =>
+      !largest || face.box.width * face.box.height > largest.box.width * largest.box.height
+        ? face
+        : largest,
+    undefined,
+  );
+  return {
+    faces: detections?.length ?? 0,
+    detectedFaces: detections?.map(({ box, score, eyesOpen, sharpness }) => ({
+      box,
+      score,
+      personId: null,
+      eyesOpen,
+      sharpness,
+    })),
+    faceMetrics: {
+      subjectSharpness: subject?.sharpness,
+    } satisfies Partial<AnalyzedMetrics>,
+  };
+};
+
+const createPhoto = async (
+  shoot: Shoot,
+  relativePath: string,
+  modifiedAt: Date,
+): Promise<Pick<ManifestEntry, "photo" | "faceEmbeddings" | "imageEmbedding">> => {
+  const sourcePath = path.join(shoot.sourceDir, relativePath);
+  const id = photoIdFor(relativePath);
+  const metadata = await sharp(sourcePath, { failOn: "none" }).metadata();
+  await writeDerivative(sourcePath, derivativePath(shoot.id, id, "thumbnail"), derivativeEdges.thumbnail);
+
+  const [folder] = relativePath.split(path.sep);
+  const { quality, perceptualHash, color, palette } = await analyzeImage(sourcePath);
+  const detections = await detectFaces(sourcePath);
+  const imageEmbedding = await embedImage(sourcePath);
+  const { faces, detectedFaces, faceMetrics } = faceFields(detections);
+  const metrics: AnalyzedMetrics = {
+    ...quality,
+    ...color,
+    emotion: 0.5,
+    clientRelevance: 0.5,
+    ...faceMetrics,
+  };
+
+  const photo: AnalyzedPhoto = {
+    id,
+    title: path.basename(relativePath, path.extname(relativePath)),
+    url: photoAssetUrl(shoot.id, id, "preview"),
+    thumbnailUrl: photoAssetUrl(shoot.id, id, "thumbnail"),
+    capturedAt: readCaptureTime(metadata.exif) ?? modifiedAt.toISOString(),
+    shotType: "Unclassified",
+    mood: "Neutral",
+    location: folder === relativePath ? "Unsorted" : folder,
+    faces,
+    tags: [],
+    clientNotes: [],
+    metrics,
+    perceptualHash,
+    palette,
+    detectedFaces,
+  };
+  return { photo, faceEmbeddings: detections?.map((face) => face.embedding), imageEmbedding };
+};
+
+const faceKey = (photoId: string, index: number) => `${photoId}-${index}`;
+
+/**
+ * Re-clusters every embedded face of the shoot and stamps person ids onto the
+ * photos, handing each person the id their faces carried in the last manifest.
+ */
+const assignPeople = (entries: ManifestEntry[]): ManifestEntry[] => {
+  const people = clusterFaces(
+    entries.flatMap((entry) =>
+      (entry.faceEmbeddings ?? []).map((embedding, index) => ({
+        key: faceKey(entry.photo.id, index),
+        embedding,
+        previousId: entry.photo.detectedFaces?.[index]?.personId,
+      })),
+    ),
+  );
+  return entries.map((entry) => ({
+    ...entry,
+    photo: {
+      ...entry.photo,
+      detectedFaces: entry.photo.detectedFaces?.map((face, index) => ({
+        ...face,
+        personId: people.get(faceKey(entry.photo.id, index)) ?? null,
+      })),
+    },
+  }));
+};
+
+/**
+ * Fills in what a cached frame missed because the CLIP or face models were
+ * not configured when it was ingested, so adding the models later indexes the
+ * whole shoot without a cache purge. Anything the models still can't provide
+ * is left as it was.
+ */
+const completeCachedEntry = async (shoot: Shoot, entry: ManifestEntry): Promise<ManifestEntry> => {
+  if (entry.imageEmbedding && entry.faceEmbeddings) return entry;
+  const sourcePath = path.join(shoot.sourceDir, entry.relativePath);
+  try {
+    const imageEmbedding = entry.imageEmbedding ?? (await embedImage(sourcePath));
+    const detections = entry.faceEmbeddings ? undefined : await detectFaces(sourcePath);
+    if (!detections) return { ...entry, imageEmbedding };
+
+    const { faces, detectedFaces, faceMetrics } = faceFields(detections);
+    return {
+      ...entry,
+      imageEmbedding,
+      faceEmbeddings: detections.map((face) => face.embedding),
+      photo: {
+        ...entry.photo,
+        faces,
+        detectedFaces,
+        metrics: { ...entry.photo.metrics, ...faceMetrics },
+      },
+    };
+  } catch (error) {
+    console.warn(`Could not complete cached frame ${entry.relativePath}:`, error);
+    return entry;
+  }
+};
+
+const runIngest = async (shoot: Shoot): Promise<Photo[]> => {
+  const previous = await readManifest(shoot.id);
+  const known = new Map(previous?.entries.map((entry) => [entry.relativePath, entry]));
+  const relativePaths = await walkJpegs(shoot.sourceDir);
+  const analyzed: ManifestEntry[] = [];
+
+  for (let index = 0; index < relativePaths.length; index += INGEST_CONCURRENCY) {
+    const batch = relativePaths.slice(index, index + INGEST_CONCURRENCY);
+    const results = await Promise.all(
+      batch.map(async (relativePath): Promise<ManifestEntry | undefined> => {
+        const stats = await stat(path.join(shoot.sourceDir, relativePath));
+        const cached = known.get(relativePath);
+        if (cached && cached.size === stats.size && cached.modifiedAt === stats.mtimeMs) {
+          return completeCachedEntry(shoot, cached);
+        }
+        try {
+          const created = await createPhoto(shoot, relativePath, stats.mtime);
+          return { relativePath, size: stats.size, modifiedAt: stats.mtimeMs, ...created };
+        } catch (error) {
+          console.warn(`Skipping unreadable frame ${relativePath}:`, error);
+          return undefined;
+        }
+      }),
+    );
+    analyzed.push(...results.filter((entry): entry is ManifestEntry => entry !== undefined));
+  }
+
+  analyzed.sort(
+    (a, b) =>
+      a.photo.capturedAt.localeCompare(b.photo.capturedAt) ||
+      a.relativePath.localeCompare(b.relativePath),
+  );
+  const entries = assignPeople(analyzed);
+
+  await mkdir(shootCacheDir(shoot.id), { recursive: true });
+  await writeFile(
+    manifestPath(shoot.id),
+    JSON.stringify({ version: MANIFEST_VERSION, entries } satisfies ShootManifest),
+  );
+  imageIndexes.delete(shoot.id);
+
+  return entries.map((entry) => entry.photo);
+};
+
+/**
+ * Walks the shoot folder and returns one `Photo` per JPEG. Frames whose size
+ * and modification time match the cached manifest are reused, so repeat
+ * loads only pay for new or edited files and for analysis the cache lacks.
+ */
+export const ingestShoot = (shoot: Shoot): Promise<Photo[]> => {
+  const pending = pendingIngests.get(shoot.id);
+  if (pending) return pending;
+
+  const ingest = runIngest(shoot).finally(() => pendingIngests.delete(shoot.id));
+  pendingIngests.set(shoot.id, ingest);
+  return ingest;
+};
+
+/**
+ * Records the new size and modification time of originals this app rewrote
+ * itself (embedded XMP), so the next load keeps their analysis instead of
+ * treating them as edited frames.
+ */
+export const noteSourceRewrites = async (shoot: Shoot, rewritten: Map<string, SourceStats>) => {
+  if (rewritten.size === 0) return;
+  await pendingIngests.get(shoot.id)?.catch(() => undefined);
+  const manifest = await readManifest(shoot.id);
+  if (!manifest) return;
+  const entries = manifest.entries.map((entry) => {
+    const stats = rewritten.get(entry.photo.id);
+    return stats ? { ...entry, ...stats } : entry;
+  });
+  await writeFile(manifestPath(shoot.id), JSON.stringify({ ...manifest, entries }));
+};
+
+export const resolvePhotoAsset = async (shoot: Shoot, photoId: string, variant: PhotoVariant) => {
+  const manifest = await readManifest(shoot.id);
+  const entry = manifest?.entries.find((item) => item.photo.id === photoId);
+  if (!entry) return undefined;
+
+  const sourcePath = path.join(shoot.sourceDir, entry.relativePath);
+  if (variant === "original") return sourcePath;
+
+  const targetPath = derivativePath(shoot.id, photoId, variant);
+  try {
+    await stat(targetPath);
+  } catch {
+    await writeDerivative(sourcePath, targetPath, derivativeEdges[variant]);
+  }
+  return targetPath;
+};
+
+export const listSourcePaths = async (shoot: Shoot): Promise<Map<string, string>> => {
+  const manifest = await readManifest(shoot.id);
+  return new Map(
+    manifest?.entries.map((entry) => [entry.photo.id, path.join(shoot.sourceDir, entry.relativePath)]),
+  );
+};
+
+/**
+ * Cosine index over the CLIP embeddings of a shoot's frames, keyed by photo
+ * id. Built from the manifest on first use and dropped whenever an ingest
+ * rewrites it. Empty when ingest ran without CLIP models.
+ */
+export const getImageIndex = (shoot: Shoot): Promise<VectorIndex> => {
+  const cached = imageIndexes.get(shoot.id);
+  if (cached) return cached;
+
+  const index = readManifest(shoot.id).then((manifest) =>
+    createVectorIndex(
+      (manifest?.entries ?? []).flatMap(({ photo, imageEmbedding }) =>
+        imageEmbedding ? [{ key: photo.id, vector: imageEmbedding }] : [],
+      ),
+    ),
+  );
+  imageIndexes.set(shoot.id, index);
+  return index;
+};
@@ -0,0 +1,74 @@
+const SOI = 0xd8;
+const SOS = 0xda;
+const EOI = 0xd9;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const MAX_SEGMENT_LENGTH = 0xffff;
+const XMP_HEADER = Buffer.from("http://ns.adobe.com/xap/1.0/\0", "latin1");
+
+type Segment = {
+  marker: number;
+  start: number;
+  end: number;
+};
+
+/** The metadata segments ahead of the image data; stops at the first malformed marker. */
+const headerSegments = (jpeg: Buffer): Segment[] | undefined => {
+  if (jpeg.length < 4 || jpeg[0] !== 0xff || jpeg[1] !== SOI) return undefined;
+  const segments: Segment[] = [];
+  let offset = 2;
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff) {
+    const marker = jpeg[offset + 1];
+    if (marker === SOS || marker === EOI) break;
+    const end = offset + 2 + jpeg.readUInt16BE(offset + 2);
+    if (end > jpeg.length) break;
+    segments.push({ marker, start: offset, end });
+    offset = end;
+  }
+  return segments;
+};
+
+const isXmpSegment = (jpeg: Buffer, { marker, start, end }: Segment) =>
+  marker === APP1 &&
+  end - start - 4 >= XMP_HEADER.length &&
+  jpeg.subarray(start + 4, start + 4 + XMP_HEADER.length).equals(XMP_HEADER);
+
+/**
+ * The XMP packet embedded in a JPEG's APP1 segment, where Lightroom and
+ * most other tools keep ratings and labels for JPEGs. Works on the head of
+ * a file too, as long as it reaches past the metadata segments.
+ */
+export const readEmbeddedXmp = (jpeg: Buffer): string | undefined => {
+  const segment = headerSegments(jpeg)?.find((candidate) => isXmpSegment(jpeg, candidate));
+  return segment
+    ? jpeg.toString("utf8", segment.start + 4 + XMP_HEADER.length, segment.end)
+    : undefined;
+};
+
+/**
+ * Returns a copy of the JPEG carrying `packet` as its XMP, replacing any
+ * packet already there. The segment goes after the JFIF and Exif headers,
+ * where readers expect it; the image data is copied byte for byte. Undefined
+ * when the file isn't a JPEG or the packet doesn't fit in one segment.
+ */
+export const embedXmp = (jpeg: Buffer, packet: string): Buffer | undefined => {
+  const segments = headerSegments(jpeg);
+  const payload = Buffer.concat([XMP_HEADER, Buffer.from(packet, "utf8")]);
+  if (!segments || payload.length + 2 > MAX_SEGMENT_LENGTH) return undefined;
+
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(payload.length + 2);
+  const xmpSegment = Buffer.concat([Buffer.from([0xff, APP1]), length, payload]);
+
+  const kept = segments.filter((segment) => !isXmpSegment(jpeg, segment));
+  const leading = kept.findIndex((segment) => segment.marker !== APP0 && segment.marker !== APP1);
+  const splitAt = leading === -1 ? kept.length : leading;
+  const headerEnd = segments.length > 0 ? segments[segments.length - 1].end : 2;
+  return Buffer.concat([
+    jpeg.subarray(0, 2),
+    ...kept.slice(0, splitAt).map(({ start, end }) => jpeg.subarray(start, end)),
+    xmpSegment,
+    ...kept.slice(splitAt).map(({ start, end }) => jpeg.subarray(start, end)),
+    jpeg.subarray(headerEnd),
+  ]);
+};
@@ -0,0 +1,64 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const pendingWrites = new Map<string, Promise<void>>();
+
+export const readJson = async <T>(filePath: string): Promise<T | undefined> => {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+};
+
+/**
+ * Writes through a temp file and rename so a crash mid-write never leaves a
+ * truncated document behind. Writes to the same path are queued in order.
+ */
+export const writeJson = (filePath: string, value: unknown): Promise<void> => {
+  const previous = pendingWrites.get(filePath) ?? Promise.resolve();
+  const write = previous
+    .catch(() => undefined)
+    .then(async () => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(value, null, 2));
+      await rename(tempPath, filePath);
+    });
+
+  pendingWrites.set(filePath, write);
+  const settle = () => {
+    if (pendingWrites.get(filePath) === write) pendingWrites.delete(filePath);
+  };
+  write.then(settle, settle);
+  return write;
+};
+
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+/**
+ * Read-modify-write of one document. Updates to the same path run one at a
+ * time, so two requests editing it together never drop each other's changes.
+ * Returning undefined from `update` leaves the document untouched.
+ */
+export const updateJson = <T>(
+  filePath: string,
+  update: (current: T | undefined) => T | undefined,
+): Promise<T | undefined> => {
+  const previous = pendingUpdates.get(filePath) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const value = update(await readJson<T>(filePath));
+      if (value !== undefined) await writeJson(filePath, value);
+      return value;
+    });
+
+  pendingUpdates.set(filePath, next);
+  const settle = () => {
+    if (pendingUpdates.get(filePath) === next) pendingUpdates.delete(filePath);
+  };
+  next.then(settle, settle);
+  return next;
+};
@@ -0,0 +1,35 @@
+import path from "node:path";
+import { builtInPresets, isBuiltInPreset, type BriefPreset } from "@/lib/brief";
+import { dataRoot } from "./config";
+import { readJson, updateJson } from "./json-store";
+
+const presetsPath = path.join(dataRoot, "presets.json");
+
+const readCustomPresets = async () => (await readJson<BriefPreset[]>(presetsPath)) ?? [];
+
+export const listPresets = async (): Promise<BriefPreset[]> => [
+  ...builtInPresets,
+  ...(await readCustomPresets()),
+];
+
+/** Adds presets or replaces the saved ones with the same id; built-ins are read-only. */
+export const savePresets = async (presets: BriefPreset[]): Promise<BriefPreset[]> => {
+  const custom = await updateJson<BriefPreset[]>(presetsPath, (current = []) => {
+    const saved = new Map(current.map((preset) => [preset.id, preset]));
+    presets
+      .filter((preset) => !isBuiltInPreset(preset.id))
+      .forEach((preset) => saved.set(preset.id, preset));
+    return Array.from(saved.values()).sort((a, b) => a.name.localeCompare(b.name));
+  });
+  return [...builtInPresets, ...(custom ?? [])];
+};
+
+export const deletePreset = async (presetId: string): Promise<boolean> => {
+  let deleted = false;
+  await updateJson<BriefPreset[]>(presetsPath, (custom = []) => {
+    const remaining = custom.filter((preset) => preset.id !== presetId);
+    deleted = remaining.length < custom.length;
+    return deleted ? remaining : undefined;
+  });
+  return deleted;
+};
@@ -0,0 +1,84 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import type { CurationState, Project, ProjectSummary } from "@/lib/projects";
+import { dataRoot } from "./config";
+import { readJson, updateJson, writeJson } from "./json-store";
+
+const PROJECT_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const projectsDir = path.join(dataRoot, "projects");
+
+const projectPath = (projectId: string) => {
+  if (!PROJECT_ID_PATTERN.test(projectId)) {
+    throw new Error(`Invalid project id "${projectId}"`);
+  }
+  return path.join(projectsDir, `${projectId}.json`);
+};
+
+const toSummary = ({ id, name, shootId, createdAt, updatedAt }: Project): ProjectSummary => ({
+  id,
+  name,
+  shootId,
+  createdAt,
+  updatedAt,
+});
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  let files: string[];
+  try {
+    files = await readdir(projectsDir);
+  } catch {
+    return [];
+  }
+
+  const projects = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => readJson<Project>(path.join(projectsDir, file))),
+  );
+  return projects
+    .filter((project): project is Project => project !== undefined)
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getProject = async (projectId: string) =>
+  PROJECT_ID_PATTERN.test(projectId) ? readJson<Project>(projectPath(projectId)) : undefined;
+
+export const ensureProject = async (
+  projectId: string,
+  name: string,
+  shootId: string | null,
+): Promise<Project> => {
+  const existing = await getProject(projectId);
+  if (existing) return existing;
+
+  const now = new Date().toISOString();
+  const project: Project = {
+    id: projectId,
+    name,
+    shootId,
+    createdAt: now,
+    updatedAt: now,
+    curation: null,
+  };
+  await writeJson(projectPath(projectId), project);
+  return project;
+};
+
+/** Serialised, so a curation autosave can't drop a gallery link saved alongside it. */
+const updateProject = async (
+  projectId: string,
+  changes: Partial<Pick<Project, "name" | "curation" | "galleryToken">>,
+): Promise<Project | undefined> => {
+  if (!PROJECT_ID_PATTERN.test(projectId)) return undefined;
+  return updateJson<Project>(projectPath(projectId), (project) =>
+    project ? { ...project, ...changes, updatedAt: new Date().toISOString() } : undefined,
+  );
+};
+
+export const saveCuration = (projectId: string, curation: CurationState) =>
+  updateProject(projectId, { curation });
+
+export const linkGallery = (projectId: string, galleryToken: string) =>
+  updateProject(projectId, { galleryToken });
@@ -0,0 +1,23 @@
+import type { ReviewEvent } from "@/lib/reviews";
+
+type ReviewListener = (event: ReviewEvent) => void;
+
+const listeners = new Map<string, Set<ReviewListener>>();
+
+/**
+ * In-process fan-out of review votes to every open dashboard of a project.
+ * Returns the unsubscribe function.
+ */
+export const subscribeToReviews = (projectId: string, listener: ReviewListener) => {
+  const projectListeners = listeners.get(projectId) ?? new Set<ReviewListener>();
+  projectListeners.add(listener);
+  listeners.set(projectId, projectListeners);
+  return () => {
+    projectListeners.delete(listener);
+    if (projectListeners.size === 0) listeners.delete(projectId);
+  };
+};
+
+export const publishReviewEvent = (projectId: string, event: ReviewEvent) => {
+  listeners.get(projectId)?.forEach((listener) => listener(event));
+};
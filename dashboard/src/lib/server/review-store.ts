@@ -0,0 +1,61 @@
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import {
+  applyReviewUpdate,
+  withVote,
+  type ProjectReviews,
+  type Reviewer,
+  type ReviewUpdate,
+  type ReviewVote,
+  type ReviewVotes,
+} from "@/lib/reviews";
+import { dataRoot } from "./config";
+import { readJson, updateJson } from "./json-store";
+import { publishReviewEvent } from "./review-events";
+
+const reviewersPath = path.join(dataRoot, "reviewers.json");
+
+const reviewsPath = (projectId: string) => path.join(dataRoot, "reviews", `${projectId}.json`);
+
+export const listReviewers = async (): Promise<Reviewer[]> =>
+  (await readJson<Reviewer[]>(reviewersPath)) ?? [];
+
+export const getReviewer = async (reviewerId: string) =>
+  (await listReviewers()).find((reviewer) => reviewer.id === reviewerId);
+
+/**
+ * Local sign-in: names are matched case-insensitively, so signing in again
+ * as "Ana" on another machine continues the same reviewer's votes.
+ */
+export const signInReviewer = async ({ name, role }: Pick<Reviewer, "name" | "role">) => {
+  let reviewer: Reviewer = { id: randomUUID(), name, role };
+  await updateJson<Reviewer[]>(reviewersPath, (reviewers = []) => {
+    const existing = reviewers.find((item) => item.name.toLowerCase() === name.toLowerCase());
+    if (existing) reviewer = { ...existing, role };
+    return [...reviewers.filter((item) => item.id !== reviewer.id), reviewer];
+  });
+  return reviewer;
+};
+
+const readVotes = async (projectId: string) =>
+  (await readJson<ReviewVotes>(reviewsPath(projectId))) ?? {};
+
+export const getProjectReviews = async (projectId: string): Promise<ProjectReviews> => {
+  const [reviewers, votes] = await Promise.all([listReviewers(), readVotes(projectId)]);
+  return { reviewers, votes };
+};
+
+export const recordVote = async (
+  projectId: string,
+  reviewer: Reviewer,
+  update: ReviewUpdate,
+): Promise<ReviewVote | null> => {
+  let vote: ReviewVote | null = null;
+  await updateJson<ReviewVotes>(reviewsPath(projectId), (votes = {}) => {
+    const current = votes[reviewer.id]?.[update.photoId];
+    vote = applyReviewUpdate(current, update, new Date().toISOString());
+    return withVote(votes, reviewer.id, update.photoId, vote);
+  });
+  publishReviewEvent(projectId, { type: "vote", reviewer, photoId: update.photoId, vote });
+  return vote;
+};
@@ -0,0 +1,29 @@
+import type { TrainingExample } from "@/lib/weight-learning";
+import { loadCatalog } from "./catalog";
+import { getProject, listProjects } from "./project-store";
+
+export type SelectionHistory = {
+  examples: TrainingExample[];
+  projects: number;
+};
+
+/**
+ * Collects every frame of every project that has a shortlist, labelled by
+ * whether it made the cut. Projects whose shoot folder is gone are skipped.
+ */
+export const loadSelectionHistory = async (): Promise<SelectionHistory> => {
+  const history: SelectionHistory = { examples: [], projects: 0 };
+  for (const summary of await listProjects()) {
+    const project = await getProject(summary.id);
+    const selectedIds = new Set(project?.curation?.selectedIds);
+    if (!project || selectedIds.size === 0) continue;
+
+    const photos = await loadCatalog(project.shootId);
+    if (photos.length === 0) continue;
+    history.projects += 1;
+    photos.forEach((photo) =>
+      history.examples.push({ photo, selected: selectedIds.has(photo.id) }),
+    );
+  }
+  return history;
+};
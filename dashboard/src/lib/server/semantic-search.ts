@@ -0,0 +1,62 @@
+import type { SemanticMatch, SemanticQuery } from "@/lib/semantic-search";
+import type { Shoot } from "@/lib/shoots";
+import { embedText } from "./clip";
+import { getImageIndex } from "./ingest";
+
+const MAX_RESULTS = 60;
+/**
+ * CLIP scores text against images far lower than images against each other:
+ * unrelated frames still reach about 0.2 against a caption and a good match
+ * lands around 0.27–0.35, while a different frame of the same scene sits
+ * above 0.8. Text matches must clear the floor and stay within a narrow
+ * window of the best one, since absolute caption scores shift with wording.
+ */
+const MIN_TEXT_SIMILARITY = 0.24;
+const TEXT_SIMILARITY_WINDOW = 0.05;
+const MIN_IMAGE_SIMILARITY = 0.75;
+
+export type SemanticSearchResult =
+  | { ok: true; matches: SemanticMatch[] }
+  | { ok: false; error: string };
+
+/**
+ * Answers a described or "more like this" search from the shoot's CLIP
+ * index. Fails with a reason when the shoot was ingested without CLIP
+ * models, so the dashboard can fall back to keyword search.
+ */
+export const searchShoot = async (
+  shoot: Shoot,
+  query: SemanticQuery,
+): Promise<SemanticSearchResult> => {
+  const index = await getImageIndex(shoot);
+  if (index.size === 0) {
+    return {
+      ok: false,
+      error: "Semantic search needs CLIP models in CURATOR_CLIP_MODELS when the shoot is ingested",
+    };
+  }
+
+  const vector =
+    query.kind === "text" ? await embedText(query.terms.join(" ")) : index.vectorOf(query.photoId);
+  if (!vector) {
+    return {
+      ok: false,
+      error:
+        query.kind === "text"
+          ? "The CLIP text encoder is not available"
+          : `Frame "${query.photoId}" is not in the search index`,
+    };
+  }
+
+  const isText = query.kind === "text";
+  const candidates = index.nearest(
+    vector,
+    MAX_RESULTS,
+    isText ? MIN_TEXT_SIMILARITY : MIN_IMAGE_SIMILARITY,
+  );
+  const cutoff = isText ? (candidates[0]?.similarity ?? 0) - TEXT_SIMILARITY_WINDOW : -1;
+  const matches = candidates
+    .filter(({ similarity }) => similarity >= cutoff)
+    .map(({ key, similarity }) => ({ photoId: key, similarity }));
+  return { ok: true, matches };
+};
@@ -0,0 +1,49 @@
+export type VectorMatch = {
+  key: string;
+  similarity: number;
+};
+
+/**
+ * Brute-force cosine index over unit vectors packed into one Float32Array.
+ * A shoot of a few thousand 512-d embeddings scans in a couple of
+ * milliseconds, so no approximate structure is worth its upkeep here.
+ */
+export const createVectorIndex = (items: Array<{ key: string; vector: number[] }>) => {
+  const dimensions = items[0]?.vector.length ?? 0;
+  const entries = items.filter((item) => item.vector.length === dimensions);
+  const keys = entries.map((entry) => entry.key);
+  const vectors = new Float32Array(entries.length * dimensions);
+  entries.forEach(({ vector }, row) => {
+    const norm = Math.hypot(...vector) || 1;
+    vector.forEach((value, column) => {
+      vectors[row * dimensions + column] = value / norm;
+    });
+  });
+
+  const vectorOf = (key: string) => {
+    const row = keys.indexOf(key);
+    return row === -1
+      ? undefined
+      : Array.from(vectors.subarray(row * dimensions, (row + 1) * dimensions));
+  };
+
+  /** Entries at or above `minSimilarity`, most similar first, at most `limit` of them. */
+  const nearest = (query: number[], limit: number, minSimilarity = -1): VectorMatch[] => {
+    if (query.length !== dimensions) return [];
+    const norm = Math.hypot(...query) || 1;
+    const matches: VectorMatch[] = [];
+    keys.forEach((key, row) => {
+      let dot = 0;
+      for (let column = 0; column < dimensions; column += 1) {
+        dot += vectors[row * dimensions + column] * query[column];
+      }
+      const similarity = dot / norm;
+      if (similarity >= minSimilarity) matches.push({ key, similarity });
+    });
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  };
+
+  return { size: keys.length, vectorOf, nearest };
+};
+
+export type VectorIndex = ReturnType<typeof createVectorIndex>;
@@ -0,0 +1,207 @@
+import { open, readdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Photo } from "@/lib/photo-data";
+import type { RankedPhoto } from "@/lib/scoring";
+import { scoreToStars } from "@/lib/score-tiers";
+import type { Shoot } from "@/lib/shoots";
+import { PICK_LABEL, type XmpExportResult, type XmpRating } from "@/lib/xmp";
+import { listSourcePaths, noteSourceRewrites, type SourceStats } from "./ingest";
+import { embedXmp, readEmbeddedXmp } from "./jpeg-xmp";
+
+const CURATOR_NAMESPACE = "http://ns.capturecurator.app/xmp/1.0/";
+const KEYWORD_ROOT = "Capture Curator";
+/** Exif and XMP segments fit in well under this; the image data that follows isn't needed. */
+const HEAD_BYTES = 1024 * 1024;
+const RAW_EXTENSIONS = new Set([
+  ".arw",
+  ".cr2",
+  ".cr3",
+  ".nef",
+  ".orf",
+  ".pef",
+  ".raf",
+  ".rw2",
+  ".srw",
+]);
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, ">")
+    .replace(/&lt;/g, "<")
+    .replace(/&amp;/g, "&");
+
+const sidecarPath = (sourcePath: string) =>
+  path.join(path.dirname(sourcePath), `${path.basename(sourcePath, path.extname(sourcePath))}.xmp`);
+
+const bag = (items: string[]) =>
+  `<rdf:Bag>${items.map((item) => `<rdf:li>${escapeXml(item)}</rdf:li>`).join("")}</rdf:Bag>`;
+
+const keywordsFor = (photo: Photo) => ({
+  flat: Array.from(new Set([...photo.tags, photo.mood, photo.shotType])),
+  hierarchical: [
+    `${KEYWORD_ROOT}|Shot type|${photo.shotType}`,
+    `${KEYWORD_ROOT}|Mood|${photo.mood}`,
+    ...photo.tags.map((tag) => `${KEYWORD_ROOT}|Tags|${tag}`),
+  ],
+});
+
+export const renderXmpPacket = (
+  { photo, score }: RankedPhoto,
+  isShortlisted: boolean,
+  rating = scoreToStars(score),
+) => {
+  const { flat, hierarchical } = keywordsFor(photo);
+  const label = isShortlisted ? `\n    xmp:Label="${PICK_LABEL}"` : "";
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:lr="http://ns.adobe.com/lightroom/1.0/"
+    xmlns:curator="${CURATOR_NAMESPACE}"
+    xmp:Rating="${rating}"${label}
+    curator:Score="${score.toFixed(3)}">
+   <dc:subject>${bag(flat)}</dc:subject>
+   <lr:hierarchicalSubject>${bag(hierarchical)}</lr:hierarchicalSubject>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>
+`;
+};
+
+const readProperty = (xml: string, name: string) => {
+  const attribute = new RegExp(`${name}="([^"]*)"`).exec(xml);
+  if (attribute) return unescapeXml(attribute[1]);
+  const element = new RegExp(`<${name}>([^<]*)</${name}>`).exec(xml);
+  return element ? unescapeXml(element[1]) : undefined;
+};
+
+export const parseXmpPacket = (xml: string): XmpRating | undefined => {
+  const rating = Number(readProperty(xml, "xmp:Rating"));
+  const label = readProperty(xml, "xmp:Label");
+  if (!Number.isFinite(rating) && label === undefined) return undefined;
+  return { rating: Number.isFinite(rating) ? rating : 0, label: label || null };
+};
+
+const readSidecarFile = async (filePath: string) => {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+};
+
+/** Reads just far enough into a frame to cover its metadata segments. */
+const readJpegHead = async (filePath: string) => {
+  const file = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(HEAD_BYTES);
+    const { bytesRead } = await file.read(buffer, 0, HEAD_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+};
+
+/**
+ * Whether a RAW file shares the frame's name, as in a RAW+JPEG pair. DNGs
+ * carry their own XMP, so only proprietary RAWs count.
+ */
+const hasRawPair = async (sourcePath: string) => {
+  const base = path.basename(sourcePath, path.extname(sourcePath));
+  const siblings = await readdir(path.dirname(sourcePath)).catch(() => [] as string[]);
+  return siblings.some(
+    (name) =>
+      path.basename(name, path.extname(name)) === base &&
+      RAW_EXTENSIONS.has(path.extname(name).toLowerCase()),
+  );
+};
+
+/** Replaces a file through a temporary copy, so a crash never leaves half an original. */
+const replaceFile = async (target: string, data: Buffer | string) => {
+  const temporary = `${target}.${process.pid}.tmp`;
+  await writeFile(temporary, data);
+  await rename(temporary, target);
+};
+
+/**
+ * Embeds ratings, the pick label and keywords in each frame's own XMP, which
+ * is what Lightroom and Capture One read for JPEGs. A frame shot RAW+JPEG
+ * also gets a `.xmp` sidecar, where Lightroom looks for the RAW's metadata.
+ * Frames or sidecars whose XMP another tool wrote (no curator namespace) are
+ * left untouched and reported back. Stars the photographer assigned while
+ * culling win over score-derived ones.
+ */
+export const writeXmp = async (
+  shoot: Shoot,
+  rankings: RankedPhoto[],
+  selectedIds: Set<string>,
+  ratings: Record<string, number> = {},
+): Promise<XmpExportResult> => {
+  const sourcePaths = await listSourcePaths(shoot);
+  const result: XmpExportResult = { written: 0, skipped: [] };
+  const rewritten = new Map<string, SourceStats>();
+
+  for (const entry of rankings) {
+    const sourcePath = sourcePaths.get(entry.photo.id);
+    if (!sourcePath) continue;
+    const packet = renderXmpPacket(entry, selectedIds.has(entry.photo.id), ratings[entry.photo.id]);
+
+    const jpeg = await readFile(sourcePath);
+    const existing = readEmbeddedXmp(jpeg);
+    const embedded =
+      existing === undefined || existing.includes(CURATOR_NAMESPACE)
+        ? embedXmp(jpeg, packet)
+        : undefined;
+    if (!embedded) {
+      result.skipped.push(path.basename(sourcePath));
+      continue;
+    }
+    await replaceFile(sourcePath, embedded);
+    const stats = await stat(sourcePath);
+    rewritten.set(entry.photo.id, { size: stats.size, modifiedAt: stats.mtimeMs });
+
+    if (await hasRawPair(sourcePath)) {
+      const sidecar = sidecarPath(sourcePath);
+      const existingSidecar = await readSidecarFile(sidecar);
+      if (existingSidecar === undefined || existingSidecar.includes(CURATOR_NAMESPACE)) {
+        await replaceFile(sidecar, packet);
+      } else {
+        result.skipped.push(path.basename(sidecar));
+      }
+    }
+    result.written += 1;
+  }
+
+  await noteSourceRewrites(shoot, rewritten);
+  return result;
+};
+
+/**
+ * Ratings and labels set in Lightroom or Capture One. A RAW+JPEG pair is
+ * read from the sidecar, where Lightroom saves the RAW's metadata; any other
+ * frame from the XMP embedded in the JPEG.
+ */
+export const readXmp = async (shoot: Shoot): Promise<Record<string, XmpRating>> => {
+  const sourcePaths = await listSourcePaths(shoot);
+  const ratings: Record<string, XmpRating> = {};
+  for (const [photoId, sourcePath] of sourcePaths) {
+    const xml = (await hasRawPair(sourcePath))
+      ? await readSidecarFile(sidecarPath(sourcePath))
+      : readEmbeddedXmp(await readJpegHead(sourcePath));
+    const parsed = xml ? parseXmpPacket(xml) : undefined;
+    if (parsed) ratings[photoId] = parsed;
+  }
+  return ratings;
+};
@@ -0,0 +1,139 @@
+import { crc32 } from "node:zlib";
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+  modifiedAt?: Date;
+};
+
+const UTF8_NAMES = 0x0800;
+const STORED = 0;
+const VERSION = 20;
+const VERSION_ZIP64 = 45;
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+
+const dosDateTime = (date: Date) => {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+const encodeEntry = ({ name, data, modifiedAt = new Date() }: ZipEntry, offset: number) => {
+  if (data.length >= UINT32_MAX) {
+    throw new Error(`${name} is too large to store in a delivery archive`);
+  }
+
+  const fileName = Buffer.from(name, "utf8");
+  const checksum = crc32(data);
+  const { time, date } = dosDateTime(modifiedAt);
+  const needsZip64 = offset >= UINT32_MAX;
+
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(VERSION, 4);
+  header.writeUInt16LE(UTF8_NAMES, 6);
+  header.writeUInt16LE(STORED, 8);
+  header.writeUInt16LE(time, 10);
+  header.writeUInt16LE(date, 12);
+  header.writeUInt32LE(checksum, 14);
+  header.writeUInt32LE(data.length, 18);
+  header.writeUInt32LE(data.length, 22);
+  header.writeUInt16LE(fileName.length, 26);
+  header.writeUInt16LE(0, 28);
+
+  const extra = Buffer.alloc(needsZip64 ? 12 : 0);
+  if (needsZip64) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(8, 2);
+    extra.writeBigUInt64LE(BigInt(offset), 4);
+  }
+
+  const record = Buffer.alloc(46);
+  record.writeUInt32LE(0x02014b50, 0);
+  record.writeUInt16LE(VERSION_ZIP64, 4);
+  record.writeUInt16LE(needsZip64 ? VERSION_ZIP64 : VERSION, 6);
+  record.writeUInt16LE(UTF8_NAMES, 8);
+  record.writeUInt16LE(STORED, 10);
+  record.writeUInt16LE(time, 12);
+  record.writeUInt16LE(date, 14);
+  record.writeUInt32LE(checksum, 16);
+  record.writeUInt32LE(data.length, 20);
+  record.writeUInt32LE(data.length, 24);
+  record.writeUInt16LE(fileName.length, 28);
+  record.writeUInt16LE(extra.length, 30);
+  record.writeUInt32LE(needsZip64 ? UINT32_MAX : offset, 42);
+
+  return {
+    localHeader: Buffer.concat([header, fileName]),
+    centralRecord: Buffer.concat([record, fileName, extra]),
+  };
+};
+
+const endOfCentralDirectory = (count: number, size: number, offset: number) => {
+  const needsZip64 = count >= UINT16_MAX || size >= UINT32_MAX || offset >= UINT32_MAX;
+  const parts: Buffer[] = [];
+
+  if (needsZip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(BigInt(44), 4);
+    record.writeUInt16LE(VERSION_ZIP64, 12);
+    record.writeUInt16LE(VERSION_ZIP64, 14);
+    record.writeBigUInt64LE(BigInt(count), 24);
+    record.writeBigUInt64LE(BigInt(count), 32);
+    record.writeBigUInt64LE(BigInt(size), 40);
+    record.writeBigUInt64LE(BigInt(offset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset + size), 8);
+    locator.writeUInt32LE(1, 16);
+    parts.push(record, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Math.min(count, UINT16_MAX), 8);
+  end.writeUInt16LE(Math.min(count, UINT16_MAX), 10);
+  end.writeUInt32LE(Math.min(size, UINT32_MAX), 12);
+  end.writeUInt32LE(needsZip64 ? UINT32_MAX : offset, 16);
+  parts.push(end);
+
+  return Buffer.concat(parts);
+};
+
+/**
+ * Streams an uncompressed ZIP archive. JPEGs don't shrink under deflate, so
+ * entries are stored as-is; ZIP64 records are added once the archive passes
+ * 4 GB, which a full wedding delivery easily does.
+ */
+export const createZipStream = (entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> => {
+  const iterator = entries[Symbol.asyncIterator]();
+  const centralRecords: Buffer[] = [];
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const next = await iterator.next();
+      if (next.done) {
+        const directory = Buffer.concat(centralRecords);
+        controller.enqueue(directory);
+        controller.enqueue(endOfCentralDirectory(centralRecords.length, directory.length, offset));
+        controller.close();
+        return;
+      }
+
+      const { localHeader, centralRecord } = encodeEntry(next.value, offset);
+      controller.enqueue(localHeader);
+      controller.enqueue(next.value.data);
+      centralRecords.push(centralRecord);
+      offset += localHeader.length + next.value.data.length;
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+};
@@ -0,0 +1,23 @@
+export type Shoot = {
+  id: string;
+  name: string;
+  sourceDir: string;
+};
+
+export type ShootSummary = Omit<Shoot, "sourceDir">;
+
+export const photoVariants = ["thumbnail", "preview", "original"] as const;
+
+export type PhotoVariant = (typeof photoVariants)[number];
+
+export const isPhotoVariant = (value: string): value is PhotoVariant =>
+  (photoVariants as readonly string[]).includes(value);
+
+export const photoAssetUrl = (shootId: string, photoId: string, variant: PhotoVariant) =>
+  `/api/shoots/${encodeURIComponent(shootId)}/photos/${encodeURIComponent(photoId)}/${variant}`;
+
+/** Swaps an ingested frame's preview url for the original; other urls are returned as-is. */
+export const fullResolutionUrl = (url: string) =>
+  url.startsWith("/api/shoots/") && url.endsWith("/preview")
+    ? `${url.slice(0, -"preview".length)}original`
+    : url;
@@ -0,0 +1,263 @@
+import { findLookOutliers } from "@/lib/color-grading";
+import type { Photo } from "@/lib/photo-data";
+import type { ClientProfile } from "@/lib/scoring";
+
+export type AnalyticsDimension = "shotType" | "mood" | "location" | "faces" | "tag";
+
+export type DistributionRow = {
+  key: string;
+  shortlisted: number;
+  catalog: number;
+  shortlistShare: number;
+  catalogShare: number;
+  isTarget: boolean;
+};
+
+export type AnalyticsWarning = {
+  id: string;
+  severity: "error" | "warning";
+  message: string;
+};
+
+export type ShortlistAnalytics = {
+  distributions: Record<AnalyticsDimension, DistributionRow[]>;
+  warnings: AnalyticsWarning[];
+};
+
+export const dimensionLabels: Record<AnalyticsDimension, string> = {
+  shotType: "Shot type",
+  mood: "Mood",
+  location: "Location",
+  faces: "Faces",
+  tag: "Tag",
+};
+
+const MAX_TAG_ROWS = 12;
+const OVERWEIGHT_RATIO = 2;
+const OVERWEIGHT_MIN_SHARE = 0.4;
+const MAX_LOOK_WARNINGS = 5;
+
+const facesBucket = (faces: number) => {
+  if (faces === 0) return "No faces";
+  if (faces <= 2) return String(faces);
+  return faces <= 5 ? "3–5" : "6+";
+};
+
+const percent = (share: number) => `${(share * 100).toFixed(0)}%`;
+
+const frames = (count: number) => `${count} ${count === 1 ? "frame" : "frames"}`;
+
+const facesOrder = ["No faces", "1", "2", "3–5", "6+"];
+
+const keysOf = (photo: Photo, dimension: AnalyticsDimension): string[] => {
+  switch (dimension) {
+    case "shotType":
+      return [photo.shotType];
+    case "mood":
+      return [photo.mood];
+    case "location":
+      return [photo.location];
+    case "faces":
+      return [facesBucket(photo.faces)];
+    case "tag":
+      return photo.tags;
+  }
+};
+
+const countKeys = (photos: Photo[], dimension: AnalyticsDimension) => {
+  const counts = new Map<string, number>();
+  photos.forEach((photo) =>
+    keysOf(photo, dimension).forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1)),
+  );
+  return counts;
+};
+
+const targetsFor = (dimension: AnalyticsDimension, profile: ClientProfile) => {
+  if (dimension === "shotType") return profile.requiredShots;
+  if (dimension === "mood") return profile.preferredMoods;
+  if (dimension === "tag") return profile.highlightTags;
+  return [];
+};
+
+/**
+ * Shares are per frame, so tag rows can sum past 100%. Tags keep only the
+ * most common catalog tags plus every highlight tag from the brief.
+ */
+export const buildDistribution = (
+  shortlist: Photo[],
+  catalog: Photo[],
+  dimension: AnalyticsDimension,
+  profile: ClientProfile,
+): DistributionRow[] => {
+  const shortlistCounts = countKeys(shortlist, dimension);
+  const catalogCounts = countKeys(catalog, dimension);
+  const targets = targetsFor(dimension, profile);
+  const keys = new Set([...catalogCounts.keys(), ...shortlistCounts.keys(), ...targets]);
+
+  const rows = Array.from(keys, (key) => {
+    const shortlisted = shortlistCounts.get(key) ?? 0;
+    const inCatalog = catalogCounts.get(key) ?? 0;
+    return {
+      key,
+      shortlisted,
+      catalog: inCatalog,
+      shortlistShare: shortlist.length > 0 ? shortlisted / shortlist.length : 0,
+      catalogShare: catalog.length > 0 ? inCatalog / catalog.length : 0,
+      isTarget: targets.includes(key),
+    };
+  });
+
+  if (dimension === "faces") {
+    return rows.sort((a, b) => facesOrder.indexOf(a.key) - facesOrder.indexOf(b.key));
+  }
+  rows.sort((a, b) => b.catalog - a.catalog || a.key.localeCompare(b.key));
+  return dimension === "tag"
+    ? rows.filter((row, index) => index < MAX_TAG_ROWS || row.isTarget)
+    : rows;
+};
+
+/**
+ * Checks the shortlist against the brief and the catalog: missing required
+ * shots (overall and per location), uncovered locations, absent preferred
+ * moods and highlight tags, frames under the face minimum, and categories
+ * the shortlist leans on far more than the shoot did.
+ */
+export const findCoverageWarnings = (
+  shortlist: Photo[],
+  catalog: Photo[],
+  profile: ClientProfile,
+  distributions: Record<AnalyticsDimension, DistributionRow[]>,
+): AnalyticsWarning[] => {
+  if (shortlist.length === 0) return [];
+  const warnings: AnalyticsWarning[] = [];
+  const has = (photos: Photo[], shotType: string, location: string) =>
+    photos.some((photo) => photo.shotType === shotType && photo.location === location);
+
+  profile.requiredShots.forEach((shot) => {
+    if (!shortlist.some((photo) => photo.shotType === shot)) {
+      warnings.push({
+        id: `shot-${shot}`,
+        severity: "error",
+        message: `No ${shot} shots in the shortlist — the brief requires them`,
+      });
+      return;
+    }
+    distributions.location.forEach(({ key: location, shortlisted }) => {
+      if (shortlisted > 0 && has(catalog, shot, location) && !has(shortlist, shot, location)) {
+        warnings.push({
+          id: `shot-${shot}-${location}`,
+          severity: "warning",
+          message: `No ${shot} shots from ${location}`,
+        });
+      }
+    });
+  });
+
+  distributions.location.forEach(({ key, shortlisted, catalog: inCatalog }) => {
+    if (shortlisted === 0 && inCatalog > 0) {
+      warnings.push({
+        id: `location-${key}`,
+        severity: "warning",
+        message: `Nothing from ${key} (${frames(inCatalog)} in the catalog)`,
+      });
+    }
+  });
+
+  distributions.mood.forEach(({ key, shortlisted, catalog: inCatalog, isTarget }) => {
+    if (isTarget && shortlisted === 0 && inCatalog > 0) {
+      warnings.push({
+        id: `mood-${key}`,
+        severity: "warning",
+        message: `No ${key} frames although the brief prefers them`,
+      });
+    }
+  });
+
+  distributions.tag.forEach(({ key, shortlisted, catalog: inCatalog, isTarget }) => {
+    if (isTarget && shortlisted === 0 && inCatalog > 0) {
+      warnings.push({
+        id: `tag-${key}`,
+        severity: "warning",
+        message: `Highlight tag #${key} is missing from the shortlist`,
+      });
+    }
+  });
+
+  const underFaces = shortlist.filter((photo) => photo.faces < profile.minimumFaces).length;
+  if (underFaces > 0) {
+    warnings.push({
+      id: "faces-minimum",
+      severity: "warning",
+      message: `${frames(underFaces)} below the brief's ${profile.minimumFaces}-face minimum`,
+    });
+  }
+
+  (["shotType", "mood", "location"] as const).forEach((dimension) => {
+    distributions[dimension].forEach(({ key, shortlistShare, catalogShare }) => {
+      const isOverweight =
+        shortlistShare >= OVERWEIGHT_MIN_SHARE && shortlistShare > catalogShare * OVERWEIGHT_RATIO;
+      if (isOverweight) {
+        warnings.push({
+          id: `overweight-${dimension}-${key}`,
+          severity: "warning",
+          message: `${key} is ${percent(shortlistShare)} of the shortlist but ${percent(
+            catalogShare,
+          )} of the catalog`,
+        });
+      }
+    });
+  });
+
+  return warnings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+};
+
+const listWords = (words: string[]) =>
+  words.length > 1 ? `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}` : words[0];
+
+/**
+ * Flags shortlisted frames whose white balance or saturation breaks from the
+ * rest, so the delivered gallery doesn't jump between warm and cool. Beyond
+ * a handful the remainder is summed up in one line.
+ */
+export const findLookWarnings = (shortlist: Photo[]): AnalyticsWarning[] => {
+  const outliers = findLookOutliers(shortlist);
+  const warnings: AnalyticsWarning[] = outliers
+    .slice(0, MAX_LOOK_WARNINGS)
+    .map(({ photo, deviations }) => ({
+      id: `look-${photo.id}`,
+      severity: "warning",
+      message: `${photo.title} is ${listWords(
+        deviations.map((deviation) => deviation.direction),
+      )} than the rest of the shortlist`,
+    }));
+  const remaining = outliers.length - MAX_LOOK_WARNINGS;
+  if (remaining > 0) {
+    warnings.push({
+      id: "look-more",
+      severity: "warning",
+      message: `${frames(remaining)} more stray from the shortlist's colour look`,
+    });
+  }
+  return warnings;
+};
+
+export const analyzeShortlist = (
+  shortlist: Photo[],
+  catalog: Photo[],
+  profile: ClientProfile,
+): ShortlistAnalytics => {
+  const dimensions = Object.keys(dimensionLabels) as AnalyticsDimension[];
+  const distributions = Object.fromEntries(
+    dimensions.map((dimension) => [
+      dimension,
+      buildDistribution(shortlist, catalog, dimension, profile),
+    ]),
+  ) as Record<AnalyticsDimension, DistributionRow[]>;
+  return {
+    distributions,
+    warnings: [
+      ...findCoverageWarnings(shortlist, catalog, profile, distributions),
+      ...findLookWarnings(shortlist),
+    ],
+  };
+};
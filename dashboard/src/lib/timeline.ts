@@ -0,0 +1,142 @@
+import type { Photo } from "@/lib/photo-data";
+
+export type TimeRange = {
+  start: number;
+  end: number;
+};
+
+export type TimelineSegment = TimeRange & {
+  id: string;
+  location: string;
+  photoIds: string[];
+  shortlisted: number;
+};
+
+export type TimelineBucket = TimeRange & {
+  total: number;
+  shortlisted: number;
+};
+
+export type SegmentOptions = {
+  maxGapMinutes: number;
+  minFrames: number;
+};
+
+export const defaultSegmentOptions: SegmentOptions = {
+  maxGapMinutes: 20,
+  minFrames: 5,
+};
+
+const MINUTE = 60_000;
+const bucketSizes = [1, 2, 5, 10, 15, 30, 60, 120].map((minutes) => minutes * MINUTE);
+
+const captureTime = (photo: Photo) => new Date(photo.capturedAt).getTime();
+
+const byCaptureTime = (photos: Photo[]) =>
+  photos
+    .filter((photo) => Number.isFinite(captureTime(photo)))
+    .sort((a, b) => captureTime(a) - captureTime(b));
+
+export const isWithinRange = (photo: Photo, range: TimeRange) => {
+  const time = captureTime(photo);
+  return time >= range.start && time <= range.end;
+};
+
+/**
+ * Splits the shoot into events: a new segment starts after a pause longer
+ * than `maxGapMinutes` or when the location changes. Runs shorter than
+ * `minFrames` are folded into the preceding event, which is then rejoined
+ * with the next one if they share a location — so a stray frame from another
+ * folder doesn't cut an event in two.
+ */
+export const segmentEvents = (
+  photos: Photo[],
+  selectedIds: Set<string>,
+  { maxGapMinutes, minFrames }: SegmentOptions = defaultSegmentOptions,
+): TimelineSegment[] => {
+  const maxGap = maxGapMinutes * MINUTE;
+  const runs: Photo[][] = [];
+  for (const photo of byCaptureTime(photos)) {
+    const run = runs[runs.length - 1];
+    const last = run?.[run.length - 1];
+    const isSameEvent =
+      last !== undefined &&
+      captureTime(photo) - captureTime(last) <= maxGap &&
+      photo.location === last.location;
+    if (isSameEvent) {
+      run.push(photo);
+    } else {
+      runs.push([photo]);
+    }
+  }
+
+  const events: Photo[][] = [];
+  for (const run of runs) {
+    const previous = events[events.length - 1];
+    const gap = previous
+      ? captureTime(run[0]) - captureTime(previous[previous.length - 1])
+      : Number.POSITIVE_INFINITY;
+    const isStray = run.length < minFrames && gap <= maxGap;
+    const continues = gap <= maxGap && previous?.[0].location === run[0].location;
+    if (previous && (isStray || continues)) {
+      previous.push(...run);
+    } else {
+      events.push([...run]);
+    }
+  }
+
+  return events.map((event) => {
+    const photoIds = event.map((photo) => photo.id);
+    return {
+      id: `segment-${event[0].id}`,
+      start: captureTime(event[0]),
+      end: captureTime(event[event.length - 1]),
+      location: event[0].location,
+      photoIds,
+      shortlisted: photoIds.filter((id) => selectedIds.has(id)).length,
+    };
+  });
+};
+
+/** Buckets frames by capture time at the smallest "nice" width giving ≤ `maxBuckets`. */
+export const buildHistogram = (
+  photos: Photo[],
+  selectedIds: Set<string>,
+  maxBuckets = 60,
+): TimelineBucket[] => {
+  const ordered = byCaptureTime(photos);
+  if (ordered.length === 0) return [];
+  const first = captureTime(ordered[0]);
+  const span = captureTime(ordered[ordered.length - 1]) - first;
+  const size =
+    bucketSizes.find((candidate) => span / candidate < maxBuckets) ??
+    Math.ceil(span / maxBuckets / MINUTE) * MINUTE;
+  const origin = Math.floor(first / size) * size;
+  const count = Math.floor((first + span - origin) / size) + 1;
+  const buckets = Array.from({ length: count }, (_, index) => ({
+    start: origin + index * size,
+    end: origin + (index + 1) * size,
+    total: 0,
+    shortlisted: 0,
+  }));
+
+  ordered.forEach((photo) => {
+    const bucket = buckets[Math.floor((captureTime(photo) - origin) / size)];
+    bucket.total += 1;
+    if (selectedIds.has(photo.id)) bucket.shortlisted += 1;
+  });
+  return buckets;
+};
+
+/**
+ * Flags segments whose shortlist share is under half the shoot-wide share,
+ * ignoring segments too small to judge.
+ */
+export const isUnderRepresented = (
+  segment: TimelineSegment,
+  overallShare: number,
+  minFrames = defaultSegmentOptions.minFrames,
+) =>
+  overallShare > 0 &&
+  segment.photoIds.length >= minFrames &&
+  segment.shortlisted / segment.photoIds.length < overallShare / 2;
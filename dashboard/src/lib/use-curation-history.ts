@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  emptyHistory,
+  invertCommand,
+  isEmptyChange,
+  pushCommand,
+  redoHistory,
+  undoHistory,
+  type AuditAction,
+  type AuditEntryInput,
+  type CurationChange,
+  type CurationCommand,
+} from "@/lib/curation-history";
+
+type QueuedEntry = {
+  commandId: string;
+  entry: AuditEntryInput;
+};
+
+const AUDIT_FLUSH_DELAY = 1000;
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Command history for curation edits with undo/redo on Ctrl+Z / Ctrl+Shift+Z
+ * (Cmd on macOS). Every step, including undos, is appended to the project's
+ * audit log; entries are batched so a slider drag is logged once, not per tick.
+ */
+export const useCurationHistory = (
+  projectId: string,
+  applyChanges: (changes: CurationChange[], action: AuditAction) => void,
+) => {
+  const [history, setHistory] = useState(emptyHistory);
+  const queueRef = useRef<QueuedEntry[]>([]);
+  const flushTimeoutRef = useRef<number | null>(null);
+
+  const flush = () => {
+    flushTimeoutRef.current = null;
+    const entries = queueRef.current.map(({ entry }) => entry);
+    queueRef.current = [];
+    if (entries.length === 0) return;
+    void fetch(`/api/projects/${projectId}/audit`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ entries }),
+      keepalive: true,
+    }).catch(() => undefined);
+  };
+
+  const record = (action: AuditAction, command: CurationCommand) => {
+    const queue = queueRef.current;
+    const last = queue[queue.length - 1];
+    const queued: QueuedEntry = {
+      commandId: command.id,
+      entry: {
+        action,
+        label: command.label,
+        changes: action === "undo" ? invertCommand(command) : command.changes,
+      },
+    };
+    queueRef.current =
+      action === "do" && last?.entry.action === "do" && last.commandId === command.id
+        ? [...queue.slice(0, -1), queued]
+        : [...queue, queued];
+    if (flushTimeoutRef.current !== null) window.clearTimeout(flushTimeoutRef.current);
+    flushTimeoutRef.current = window.setTimeout(flush, AUDIT_FLUSH_DELAY);
+  };
+
+  const execute = (label: string, changes: CurationChange[], mergeKey?: string) => {
+    const effective = changes.filter((change) => !isEmptyChange(change));
+    if (effective.length === 0) return;
+    applyChanges(effective, "do");
+    const next = pushCommand(history, {
+      id: Date.now().toString(36),
+      label,
+      at: new Date().toISOString(),
+      changes: effective,
+      mergeKey,
+    });
+    setHistory(next);
+    record("do", next.past[next.past.length - 1]);
+  };
+
+  const undo = () => {
+    const command = history.past[history.past.length - 1];
+    if (!command) return;
+    applyChanges(invertCommand(command), "undo");
+    setHistory(undoHistory(history));
+    record("undo", command);
+  };
+
+  const redo = () => {
+    const command = history.future[0];
+    if (!command) return;
+    applyChanges(command.changes, "redo");
+    setHistory(redoHistory(history));
+    record("redo", command);
+  };
+
+  const shortcutsRef = useRef({ undo, redo, flush });
+  useEffect(() => {
+    shortcutsRef.current = { undo, redo, flush };
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextField(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        shortcutsRef.current.undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        shortcutsRef.current.redo();
+      }
+    };
+    const handlePageHide = () => shortcutsRef.current.flush();
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("pagehide", handlePageHide);
+    };
+  }, []);
+
+  return { history, execute, undo, redo };
+};
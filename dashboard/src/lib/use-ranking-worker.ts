@@ -0,0 +1,100 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Photo } from "@/lib/photo-data";
+import {
+  createRankingPipeline,
+  type RankingRequest,
+  type RankingResult,
+  type RankingResultMessage,
+  type RankingWorkerMessage,
+} from "@/lib/ranking-pipeline";
+import type { ExplainedPhoto } from "@/lib/score-breakdown";
+
+type WorkerQueue = {
+  worker: Worker | null;
+  inFlight: number | null;
+  next: RankingRequest | null;
+  latest: RankingRequest;
+  lastId: number;
+  rankedPhotos: ExplainedPhoto[];
+};
+
+/**
+ * Ranks and filters the catalog in a Web Worker. The first result is computed
+ * synchronously so the page renders ranked; afterwards only the latest request
+ * is kept while one is in flight, so fast slider drags never queue up. A new
+ * catalog is re-ranked with the latest request as soon as it reaches the worker.
+ */
+export const useRankingWorker = (photos: Photo[], request: RankingRequest) => {
+  const pipeline = useMemo(() => createRankingPipeline(photos), [photos]);
+  const [result, setResult] = useState<RankingResult>(() => pipeline.run(request));
+  const [isRanking, setIsRanking] = useState(false);
+  const [rankedCatalog, setRankedCatalog] = useState(photos);
+  const queueRef = useRef<WorkerQueue>({
+    worker: null,
+    inFlight: null,
+    next: null,
+    latest: request,
+    lastId: 0,
+    rankedPhotos: result.rankedPhotos,
+  });
+
+  useEffect(() => {
+    const queue = queueRef.current;
+    const worker = new Worker(new URL("../workers/ranking-worker.ts", import.meta.url));
+    const post = (message: RankingWorkerMessage) => worker.postMessage(message);
+    const rank = (next: RankingRequest) => {
+      queue.lastId += 1;
+      queue.inFlight = queue.lastId;
+      post({ type: "rank", requestId: queue.lastId, request: next });
+    };
+
+    worker.addEventListener("message", (event: MessageEvent<RankingResultMessage>) => {
+      const { requestId, ranked, filteredPositions, collectionCounts } = event.data;
+      if (requestId !== queue.inFlight) return;
+      const rankedPhotos = ranked
+        ? ranked.map(({ photoIndex, ...entry }) => ({ ...entry, photo: photos[photoIndex] }))
+        : queue.rankedPhotos;
+      queue.rankedPhotos = rankedPhotos;
+      setRankedCatalog(photos);
+      setResult({
+        rankedPhotos,
+        filtered: filteredPositions.map((position) => rankedPhotos[position]),
+        collectionCounts,
+      });
+
+      if (queue.next) {
+        rank(queue.next);
+        queue.next = null;
+      } else {
+        queue.inFlight = null;
+        setIsRanking(false);
+      }
+    });
+
+    post({ type: "catalog", photos });
+    queue.worker = worker;
+    queue.next = null;
+    rank(queue.latest);
+    return () => {
+      worker.terminate();
+      queue.worker = null;
+    };
+  }, [photos]);
+
+  useEffect(() => {
+    const queue = queueRef.current;
+    if (request === queue.latest) return;
+    queue.latest = request;
+    if (!queue.worker) return;
+    if (queue.inFlight !== null) {
+      queue.next = request;
+      return;
+    }
+    queue.lastId += 1;
+    queue.inFlight = queue.lastId;
+    queue.worker.postMessage({ type: "rank", requestId: queue.lastId, request });
+    setIsRanking(true);
+  }, [request]);
+
+  return { ...result, pipeline, isRanking: isRanking || rankedCatalog !== photos };
+};
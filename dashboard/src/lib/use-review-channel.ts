@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  applyReviewUpdate,
+  withVote,
+  type ProjectReviews,
+  type Reviewer,
+  type ReviewerRole,
+  type ReviewEvent,
+  type ReviewUpdate,
+  type ReviewVote,
+} from "@/lib/reviews";
+
+export type ChannelStatus = "connecting" | "live" | "offline";
+
+const withReviewer = (reviewers: Reviewer[], reviewer: Reviewer) => [
+  ...reviewers.filter((item) => item.id !== reviewer.id),
+  reviewer,
+];
+
+const request = async <T>(url: string, init?: RequestInit) => {
+  const response = await fetch(url, init);
+  const body = (await response.json()) as T & { error?: string };
+  if (!response.ok) throw new Error(body.error ?? `Request failed with ${response.status}`);
+  return body;
+};
+
+/**
+ * Keeps a project's review votes in sync across open dashboards. Votes from
+ * this browser are applied optimistically and rolled back if saving fails;
+ * every vote, ours included, is then confirmed by the server-sent events
+ * stream. After a dropped connection the full state is refetched so votes
+ * cast while offline aren't missed.
+ */
+export const useReviewChannel = (
+  projectId: string,
+  initialReviewer: Reviewer | null,
+  initialReviews: ProjectReviews,
+) => {
+  const [reviewer, setReviewer] = useState(initialReviewer);
+  const [reviews, setReviews] = useState(initialReviews);
+  const [status, setStatus] = useState<ChannelStatus>("connecting");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const source = new EventSource(`/api/projects/${projectId}/reviews/events`);
+    let hasDropped = false;
+
+    source.addEventListener("open", async () => {
+      setStatus("live");
+      if (!hasDropped) return;
+      try {
+        setReviews(await request<ProjectReviews>(`/api/projects/${projectId}/reviews`));
+      } catch (caught) {
+        setError(caught instanceof Error ? caught.message : "Refreshing votes failed");
+      }
+    });
+    source.addEventListener("error", () => {
+      hasDropped = true;
+      setStatus(source.readyState === EventSource.CLOSED ? "offline" : "connecting");
+    });
+    source.addEventListener("vote", (event: MessageEvent<string>) => {
+      const { reviewer: voter, photoId, vote } = JSON.parse(event.data) as ReviewEvent;
+      setReviews((prev) => ({
+        reviewers: withReviewer(prev.reviewers, voter),
+        votes: withVote(prev.votes, voter.id, photoId, vote),
+      }));
+    });
+    return () => source.close();
+  }, [projectId]);
+
+  const signIn = async (name: string, role: ReviewerRole) => {
+    setError(null);
+    try {
+      const body = await request<{ reviewer: Reviewer }>("/api/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, role }),
+      });
+      setReviewer(body.reviewer);
+      setReviews((prev) => ({ ...prev, reviewers: withReviewer(prev.reviewers, body.reviewer) }));
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Signing in failed");
+    }
+  };
+
+  const signOut = async () => {
+    setError(null);
+    try {
+      await request("/api/session", { method: "DELETE" });
+      setReviewer(null);
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Signing out failed");
+    }
+  };
+
+  const castVote = useCallback(
+    async (update: ReviewUpdate) => {
+      if (!reviewer) return;
+      const votedAt = new Date().toISOString();
+      let previous: ReviewVote | null = null;
+      let optimistic: ReviewVote | null = null;
+      setReviews((prev) => {
+        previous = prev.votes[reviewer.id]?.[update.photoId] ?? null;
+        optimistic = applyReviewUpdate(previous ?? undefined, update, votedAt);
+        return {
+          ...prev,
+          votes: withVote(prev.votes, reviewer.id, update.photoId, optimistic),
+        };
+      });
+      try {
+        await request(`/api/projects/${projectId}/reviews`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(update),
+        });
+      } catch (caught) {
+        // Roll back unless a newer vote for the frame has replaced ours meanwhile.
+        setReviews((prev) =>
+          (prev.votes[reviewer.id]?.[update.photoId] ?? null) === optimistic
+            ? { ...prev, votes: withVote(prev.votes, reviewer.id, update.photoId, previous) }
+            : prev,
+        );
+        setError(caught instanceof Error ? caught.message : "Saving the vote failed");
+      }
+    },
+    [projectId, reviewer],
+  );
+
+  return { reviewer, reviews, status, error, signIn, signOut, castVote };
+};
@@ -0,0 +1,78 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  semanticSearchParams,
+  type SemanticMatch,
+  type SemanticQuery,
+  type SemanticResults,
+} from "@/lib/semantic-search";
+
+export type SemanticSearchStatus = "off" | "searching" | "ready" | "error";
+
+type SearchAnswer = {
+  url: string;
+  similarity: Record<string, number>;
+  error: string | null;
+};
+
+const DESCRIBE_DELAY = 300;
+
+/**
+ * Asks the project's CLIP index about the semantic part of the search box.
+ * Descriptions are debounced while typing; a `like:` frame is looked up at
+ * once. Until the answer for the current query arrives, results are null and
+ * the query falls back to keyword matching.
+ */
+export const useSemanticSearch = (
+  projectId: string,
+  query: SemanticQuery | null,
+  enabled: boolean,
+) => {
+  const url =
+    enabled && query
+      ? `/api/projects/${projectId}/search?${semanticSearchParams(query).toString()}`
+      : null;
+  const delay = query?.kind === "text" ? DESCRIBE_DELAY : 0;
+  const [answer, setAnswer] = useState<SearchAnswer | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    const controller = new AbortController();
+    const timeout = window.setTimeout(async () => {
+      try {
+        const response = await fetch(url, { signal: controller.signal });
+        const body = (await response.json()) as { matches?: SemanticMatch[]; error?: string };
+        if (!response.ok) throw new Error(body.error ?? `Request failed with ${response.status}`);
+        setAnswer({
+          url,
+          similarity: Object.fromEntries(
+            (body.matches ?? []).map((match) => [match.photoId, match.similarity]),
+          ),
+          error: null,
+        });
+      } catch (caught) {
+        if (controller.signal.aborted) return;
+        const error = caught instanceof Error ? caught.message : "Semantic search failed";
+        setAnswer({ url, similarity: {}, error });
+      }
+    }, delay);
+    return () => {
+      window.clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [url, delay]);
+
+  const current = url !== null && answer?.url === url ? answer : null;
+  const results = useMemo<SemanticResults | null>(
+    () => (query && current && !current.error ? { query, similarity: current.similarity } : null),
+    [query, current],
+  );
+  const status: SemanticSearchStatus = !url
+    ? "off"
+    : !current
+      ? "searching"
+      : current.error
+        ? "error"
+        : "ready";
+
+  return { results, status, error: current?.error ?? null };
+};
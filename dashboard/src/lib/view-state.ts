@@ -0,0 +1,122 @@
+import { defaultProfile } from "@/lib/brief";
+import type { CurationState } from "@/lib/projects";
+import { defaultWeights } from "@/lib/weights";
+
+export type ViewState = Pick<CurationState, "weights" | "profile" | "filters">;
+
+export type ViewSearchParams = Record<string, string | string[] | undefined>;
+
+export const VIEW_STATE_VERSION = "1";
+
+const viewKeys = ["v", "w", "pm", "ps", "pt", "pf", "fs", "fm", "fl", "fp", "q", "sel"] as const;
+
+const escapeItem = (item: string) => item.replace(/%/g, "%25").replace(/,/g, "%2C");
+
+const encodeList = (items: string[]) => items.map(escapeItem).join(",");
+
+const decodeList = (value: string | undefined) =>
+  value ? value.split(",").map((item) => item.replace(/%2C/g, ",").replace(/%25/g, "%")) : [];
+
+const sameList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
+
+/**
+ * Encodes the view as short query params under version `v`. Values equal to
+ * the defaults are left out, so a decoded view fills missing keys from them.
+ */
+export const encodeViewState = ({ weights, profile, filters }: ViewState): [string, string][] => {
+  const params: [string, string][] = [["v", VIEW_STATE_VERSION]];
+  const add = (key: string, value: string, isDefault: boolean) => {
+    if (!isDefault) params.push([key, value]);
+  };
+  const weightValues = [weights.technical, weights.storytelling, weights.clientAlignment];
+  const defaultWeightValues = [
+    defaultWeights.technical,
+    defaultWeights.storytelling,
+    defaultWeights.clientAlignment,
+  ];
+
+  add(
+    "w",
+    weightValues.join("-"),
+    weightValues.every((value, index) => value === defaultWeightValues[index]),
+  );
+  add(
+    "pm",
+    encodeList(profile.preferredMoods),
+    sameList(profile.preferredMoods, defaultProfile.preferredMoods),
+  );
+  add(
+    "ps",
+    encodeList(profile.requiredShots),
+    sameList(profile.requiredShots, defaultProfile.requiredShots),
+  );
+  add(
+    "pt",
+    encodeList(profile.highlightTags),
+    sameList(profile.highlightTags, defaultProfile.highlightTags),
+  );
+  add("pf", String(profile.minimumFaces), profile.minimumFaces === defaultProfile.minimumFaces);
+  add("fs", encodeList(filters.activeShotTypes), filters.activeShotTypes.length === 0);
+  add("fm", encodeList(filters.activeMoods), filters.activeMoods.length === 0);
+  add("fl", encodeList(filters.activeLocations), filters.activeLocations.length === 0);
+  add("fp", encodeList(filters.activePeople), filters.activePeople.length === 0);
+  add("q", filters.tagQuery, filters.tagQuery === "");
+  add("sel", "1", !filters.showSelectedOnly);
+  return params;
+};
+
+const readParam = (params: URLSearchParams | ViewSearchParams, key: string) => {
+  if (params instanceof URLSearchParams) return params.get(key) ?? undefined;
+  const value = params[key];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/** Returns undefined when the URL carries no view, or one from a newer version. */
+export const decodeViewState = (
+  params: URLSearchParams | ViewSearchParams,
+): ViewState | undefined => {
+  const read = (key: string) => readParam(params, key);
+  if (read("v") !== VIEW_STATE_VERSION) return undefined;
+
+  const weightValues = read("w")?.split("-").map(Number);
+  const weights =
+    weightValues?.length === 3 && weightValues.every((value) => Number.isFinite(value) && value > 0)
+      ? {
+          technical: weightValues[0],
+          storytelling: weightValues[1],
+          clientAlignment: weightValues[2],
+        }
+      : defaultWeights;
+  const minimumFaces = Number(read("pf"));
+  const has = (key: string) => read(key) !== undefined;
+
+  return {
+    weights,
+    profile: {
+      preferredMoods: has("pm") ? decodeList(read("pm")) : defaultProfile.preferredMoods,
+      requiredShots: has("ps") ? decodeList(read("ps")) : defaultProfile.requiredShots,
+      highlightTags: has("pt") ? decodeList(read("pt")) : defaultProfile.highlightTags,
+      minimumFaces:
+        has("pf") && Number.isInteger(minimumFaces) && minimumFaces >= 0
+          ? minimumFaces
+          : defaultProfile.minimumFaces,
+    },
+    filters: {
+      activeShotTypes: decodeList(read("fs")),
+      activeMoods: decodeList(read("fm")),
+      activeLocations: decodeList(read("fl")),
+      activePeople: decodeList(read("fp")),
+      tagQuery: read("q") ?? "",
+      showSelectedOnly: read("sel") === "1",
+    },
+  };
+};
+
+/** Rewrites the view params of `href`, keeping unrelated params such as `shoot`. */
+export const viewStateUrl = (href: string, view: ViewState) => {
+  const url = new URL(href);
+  viewKeys.forEach((key) => url.searchParams.delete(key));
+  encodeViewState(view).forEach(([key, value]) => url.searchParams.append(key, value));
+  return `${url.pathname}${url.search}`;
+};
@@ -0,0 +1,181 @@
+import type { Photo } from "@/lib/photo-data";
+import { componentSignals } from "@/lib/score-breakdown";
+import type { ScoringWeights } from "@/lib/scoring";
+import { DEFAULT_MODEL_ID, getScoringModel } from "@/lib/scoring-models";
+
+export type TrainingExample = {
+  photo: Photo;
+  selected: boolean;
+};
+
+export type LearnedWeights = {
+  weights: ScoringWeights;
+  tagBoosts: Record<string, number>;
+  examples: number;
+  selections: number;
+  projects: number;
+};
+
+export type LearningOptions = {
+  iterations: number;
+  learningRate: number;
+  regularization: number;
+  minTagFrequency: number;
+  maxTagBoosts: number;
+};
+
+export const defaultLearningOptions: LearningOptions = {
+  iterations: 400,
+  learningRate: 0.5,
+  regularization: 0.01,
+  minTagFrequency: 5,
+  maxTagBoosts: 12,
+};
+
+export const MIN_TRAINING_SELECTIONS = 10;
+
+/** Enough frames to learn from while keeping the fit short on the server. */
+export const MAX_TRAINING_EXAMPLES = 2000;
+
+const signalKeys: Array<keyof ScoringWeights> = ["technical", "storytelling", "clientAlignment"];
+
+const MAX_TAG_BOOST = 0.1;
+const MIN_TAG_BOOST = 0.01;
+
+/** The same signals Balanced brief scores, so learned weights mean the same thing. */
+const signals = (photo: Photo) => {
+  const measured = componentSignals(photo);
+  return signalKeys.map((key) => measured[key]);
+};
+
+/** Learned weights stay within the Balanced brief sliders they are applied to. */
+const weightRange = (key: keyof ScoringWeights) => {
+  const parameter = getScoringModel(DEFAULT_MODEL_ID).parameters.find(
+    (candidate) => candidate.key === key,
+  );
+  return { min: parameter?.min ?? 0, max: parameter?.max ?? 100 };
+};
+
+/**
+ * An evenly spread sample of about `limit` examples, taken from shortlisted
+ * and skipped frames in proportion. The fit weighs both classes equally, so
+ * thinning them doesn't tilt the result.
+ */
+const sampleExamples = (examples: TrainingExample[], limit: number) => {
+  if (examples.length <= limit) return examples;
+  const ratio = limit / examples.length;
+  const spread = (items: TrainingExample[]) => {
+    const count = Math.max(1, Math.floor(items.length * ratio));
+    return Array.from({ length: count }, (_, index) =>
+      items[Math.floor((index * items.length) / count)],
+    );
+  };
+  return [
+    ...spread(examples.filter(({ selected }) => selected)),
+    ...spread(examples.filter(({ selected }) => !selected)),
+  ];
+};
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+/**
+ * Fits a class-balanced logistic regression with L2 regularisation by batch
+ * gradient descent. Row `i` of `features` is paired with `labels[i]`; the
+ * returned array holds one coefficient per feature followed by the bias.
+ */
+export const fitLogisticRegression = (
+  features: number[][],
+  labels: boolean[],
+  { iterations, learningRate, regularization }: LearningOptions = defaultLearningOptions,
+) => {
+  const width = features[0]?.length ?? 0;
+  const coefficients = new Array<number>(width + 1).fill(0);
+  const positives = labels.filter(Boolean).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) return coefficients;
+
+  const sampleWeight = (label: boolean) =>
+    labels.length / (2 * (label ? positives : negatives));
+
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    const gradient = new Array<number>(width + 1).fill(0);
+    features.forEach((row, index) => {
+      const logit = row.reduce((acc, value, column) => acc + value * coefficients[column], 0);
+      const error =
+        (sigmoid(logit + coefficients[width]) - Number(labels[index])) *
+        sampleWeight(labels[index]);
+      row.forEach((value, column) => {
+        gradient[column] += error * value;
+      });
+      gradient[width] += error;
+    });
+    for (let column = 0; column <= width; column += 1) {
+      const penalty = column < width ? regularization * coefficients[column] : 0;
+      coefficients[column] -= learningRate * (gradient[column] / features.length + penalty);
+    }
+  }
+  return coefficients;
+};
+
+/** Maps signal coefficients onto the dashboard's slider scale. */
+const toSliderWeights = (coefficients: number[]): ScoringWeights => {
+  const positive = coefficients.map((value) => Math.max(value, 0));
+  const total = positive.reduce((acc, value) => acc + value, 0);
+  const shares = total > 0 ? positive.map((value) => value / total) : positive.map(() => 1 / 3);
+  const clamped = shares.map((share, index) => {
+    const { min, max } = weightRange(signalKeys[index]);
+    return Math.round(Math.min(max, Math.max(min, share * 100)));
+  });
+  return {
+    technical: clamped[0],
+    storytelling: clamped[1],
+    clientAlignment: clamped[2],
+  };
+};
+
+/**
+ * Learns slider weights and per-tag boosts from frames the photographer
+ * shortlisted versus skipped. Only tags seen on at least `minTagFrequency`
+ * frames become features, and only the strongest `maxTagBoosts` are kept.
+ * Histories beyond `MAX_TRAINING_EXAMPLES` frames are fitted on a sample.
+ */
+export const learnWeights = (
+  history: TrainingExample[],
+  projects: number,
+  options: LearningOptions = defaultLearningOptions,
+): LearnedWeights => {
+  const examples = sampleExamples(history, MAX_TRAINING_EXAMPLES);
+  const tagCounts = new Map<string, number>();
+  examples.forEach(({ photo }) =>
+    new Set(photo.tags).forEach((tag) => tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1)),
+  );
+  const tags = Array.from(tagCounts)
+    .filter(([, count]) => count >= options.minTagFrequency)
+    .map(([tag]) => tag);
+
+  const features = examples.map(({ photo }) => [
+    ...signals(photo),
+    ...tags.map((tag) => (photo.tags.includes(tag) ? 1 : 0)),
+  ]);
+  const labels = examples.map(({ selected }) => selected);
+  const coefficients = fitLogisticRegression(features, labels, options);
+
+  const tagBoosts = Object.fromEntries(
+    tags
+      .map((tag, index) => {
+        const boost = Math.tanh(coefficients[signalKeys.length + index] / 4) * MAX_TAG_BOOST;
+        return [tag, Number(boost.toFixed(3))] as const;
+      })
+      .filter(([, boost]) => Math.abs(boost) >= MIN_TAG_BOOST)
+      .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+      .slice(0, options.maxTagBoosts),
+  );
+
+  return {
+    weights: toSliderWeights(coefficients.slice(0, signalKeys.length)),
+    tagBoosts,
+    examples: examples.length,
+    selections: labels.filter(Boolean).length,
+    projects,
+  };
+};
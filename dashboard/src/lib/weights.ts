@@ -0,0 +1,16 @@
+import type { ScoringWeights } from "@/lib/scoring";
+
+export const defaultWeights: ScoringWeights = {
+  technical: 40,
+  storytelling: 35,
+  clientAlignment: 25,
+};
+
+export const normalizeWeights = (weights: ScoringWeights): ScoringWeights => {
+  const total = weights.technical + weights.storytelling + weights.clientAlignment;
+  return {
+    technical: weights.technical / total,
+    storytelling: weights.storytelling / total,
+    clientAlignment: weights.clientAlignment / total,
+  };
+};
@@ -0,0 +1,12 @@
+export type XmpRating = {
+  rating: number;
+  label: string | null;
+};
+
+export type XmpExportResult = {
+  written: number;
+  skipped: string[];
+};
+
+/** Color label applied to shortlisted frames; reading it back marks a pick. */
+export const PICK_LABEL = "Green";
@@ -0,0 +1,41 @@
+import {
+  createRankingPipeline,
+  type RankingPipeline,
+  type RankingResultMessage,
+  type RankingWorkerMessage,
+} from "@/lib/ranking-pipeline";
+import type { ExplainedPhoto } from "@/lib/score-breakdown";
+
+const worker = self as unknown as Worker;
+
+let pipeline: RankingPipeline | null = null;
+let photoIndexes = new Map<string, number>();
+let lastPosted: ExplainedPhoto[] | null = null;
+
+worker.addEventListener("message", (event: MessageEvent<RankingWorkerMessage>) => {
+  const message = event.data;
+  if (message.type === "catalog") {
+    pipeline = createRankingPipeline(message.photos);
+    photoIndexes = new Map(message.photos.map((photo, index) => [photo.id, index]));
+    lastPosted = null;
+    return;
+  }
+  if (!pipeline) return;
+
+  const { rankedPhotos, filtered, collectionCounts } = pipeline.run(message.request);
+  const positions = new Map(rankedPhotos.map((entry, position) => [entry.photo.id, position]));
+  const result: RankingResultMessage = {
+    requestId: message.requestId,
+    ranked:
+      rankedPhotos === lastPosted
+        ? null
+        : rankedPhotos.map(({ photo, ...entry }) => ({
+            ...entry,
+            photoIndex: photoIndexes.get(photo.id) ?? -1,
+          })),
+    filteredPositions: filtered.map(({ photo }) => positions.get(photo.id) ?? -1),
+    collectionCounts,
+  };
+  lastPosted = rankedPhotos;
+  worker.postMessage(result);
+});